@@ -1,7 +1,16 @@
-import { Directory, File } from "./File";
-import { UnlinkFlag } from "./Flags";
+import { ENODEV, ENOTTY } from "./Error";
+import { DeviceFile, Directory, File, isDeviceFile, isDirectory, isExecutableFile, isVirtualDirectory, Program, TerminalControl } from "./File";
+import { createMemoryDriver, FileSystemDriver, Mount, tmpfs } from "./FileSystem";
+import { MountFlag, OpenFlag, Signal } from "./Flags";
+import { PersistenceBackend } from "./Persistence";
 import { Process } from "./Process";
-import { join } from "./Utils";
+import { procfs } from "./ProcFS";
+import { devpts, Pty } from "./Pty";
+import { createWorkerSandbox, SandboxFactory } from "./Sandbox";
+import { CommandOptions, CommandResult, RunCommandOptions, Session } from "./Session";
+import { createReferenceTable, ReferenceTable, restore, serialize, Snapshot } from "./Snapshot";
+import { TerminalBackend } from "./Terminal";
+import { generateFakeElfFile, join, resolve } from "./Utils";
 
 /*
 NOTE: 実装されている機能における Linux との相違点
@@ -14,10 +23,41 @@ NOTE: 実装されている機能における Linux との相違点
 * uname で取得できる utsname 構造体は独自のものに変更されています。
     Linux におけるリリース番号を Kotonemu ではカーネルバージョンと呼称します。
 * exec システムコールにおいて、　argv と envp の引数名と内容が変更されています。
+* シグナルは協調的に処理されます。シグナルによる終了や割り込みは、sleep や read などの待機中のシステムコールの中断として実現されます。
+* 端末の制御は tcsetpgrp / tcgetpgrp / tcgetattr / tcsetattr システムコールのみで行い、制御端末はプロセスの tty で決まります。
+* 端末の属性は一部のフラグと制御文字のみに対応しており、VMIN は文字数として扱われます。
+* セッションは制御端末の有無のみで表されます。setsid したプロセスが最初に開いた端末が制御端末になり、TIOCSCTTY などは存在しません。
+* 疑似端末は /dev/ptmx を開くことで作成し、ptsname でスレーブ側のパス名を取得します。マスター側の読み込みは、スレーブ側がすべて閉じられても EIO になりません。
+* spawn システムコールは子プロセスの終了を待機し、終了ステータスを返します。wait / waitpid は並行して実行している子プロセスを先に回収するために使用できます。
+* wait / waitpid で取得できる終了ステータスは、シグナルによって終了した場合 128 + シグナル番号になります。
 */
 
 export interface EmulatorInit {
     info?: EmulatorInfo;
+
+    /** 追加のファイルシステムドライバ */
+    drivers?: FileSystemDriver[];
+
+    /** 起動時にマウントするファイルシステム。マウントポイントが存在しない場合は作成されます。 */
+    mounts?: { source: string, target: string, type: string, flags?: MountFlag }[];
+
+    /** ルートファイルシステムの永続化バックエンド。指定した場合、起動時に復元され、変更後に自動で保存されます。 */
+    persistence?: PersistenceBackend;
+
+    /** 変更から自動保存までの待機時間 (ミリ秒)。既定値は 1000 です。 */
+    autosaveDelay?: number;
+
+    /** 自動保存に失敗した際に呼び出される関数。省略した場合、失敗は通知されません。 */
+    onSaveError?: (error: unknown) => void;
+
+    /** プログラムレジストリに登録するプログラム。実行ファイルの内容のプログラム名ヘッダーから参照されます。 */
+    programs?: Record<string, Program>;
+
+    /**
+     * #!kotonejs で始まるモジュールを実行するサンドボックスの作成関数。省略した場合、Web Worker が使用できる環境では Web Worker を使用します。
+     * Node.js などの Web Worker がない環境では、指定しない限りこれらのモジュールは ENOEXEC で実行に失敗します。
+     */
+    sandbox?: SandboxFactory;
 }
 
 /** エミュレーター情報インタフェース */
@@ -37,17 +77,12 @@ export class Emulator {
 
     public readonly PROCESS_DIRECTORY: string = "/proc";
     public readonly SYSTEM_BIN_DIRECTORY: string = "/sbin";
+    public readonly DEVICE_DIRECTORY: string = "/dev";
+    public readonly PTS_DIRECTORY: string = "/dev/pts";
     public readonly DEFAULT_TTY: string = "/dev/tty1";
 
-    public storage: Directory = {
-        name: "root",
-        type: "directory",
-        children: [],
-        owner: 0,
-        group: 0,
-        mode: 0o644,
-        deleted: false
-    };
+    /** ルートファイルシステムのルートディレクトリ */
+    public storage: Directory;
 
     public rootProcess = new Process(this, {
         id: 0,
@@ -57,26 +92,319 @@ export class Emulator {
             PWD: "/"
         }
     });
+
+    /** プロセス ID をキーとしたプロセステーブル。終了したプロセスは親プロセスに回収されるまで残ります。 */
+    public processTable: Map<number, Process> = new Map([[this.rootProcess.id, this.rootProcess]]);
+
     public newPid: number = 1;
+    public newPipeId: number = 1;
+    public newIno: number = 1;
+    /** 仮想ディレクトリが生成したエントリに割り当てた、パス名ごとの inode 番号 */
+    public generatedInos: Map<string, number> = new Map();
+
+    /** エミュレーターが起動した時刻 */
+    public startTime: number = Date.now();
+
+    /** 各端末のフォアグラウンドプロセスグループ ID */
+    public foreground: Record<string, number> = {};
+
+    /** 使用中の疑似端末 (番号順) */
+    public ptys: Pty[] = [];
 
     /** エミュレーター情報 */
     public info: EmulatorInfo;
 
+    /** 種類名をキーとした、使用可能なファイルシステムドライバ */
+    public drivers: Record<string, FileSystemDriver>;
+
+    /** マウントテーブル。同じマウントポイントに複数マウントされている場合、後のものが優先されます。 */
+    public mounts: Mount[];
+
+    /** プログラム名をキーとしたプログラムレジストリ */
+    public programs: Record<string, Program>;
+
+    /** サンドボックスの作成関数。サンドボックスを使用できない場合は undefined */
+    public sandbox: SandboxFactory | undefined;
+
+    private config: EmulatorInit;
+
+    /** 起動時のストレージに含まれる実行ファイルとデバイスファイルの対応表 */
+    private references: ReferenceTable;
+
+    /** 予約されている自動保存のタイマー */
+    private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
     public constructor(config: EmulatorInit, storage: File[]) {
+        this.config = config;
         this.info = config.info ?? <EmulatorInfo>{
             nodename: "kotonemu",
             os_name: "Kotonemu",
             os_version: "1.0.0"
         };
-        this.storage.children = storage;
+
+        // NOTE: 与えられたストレージは rootfs ドライバとして / にマウントする
+        const rootfs = createMemoryDriver("rootfs", storage);
+        this.drivers = Object.fromEntries([rootfs, tmpfs, procfs, devpts, ...config.drivers ?? []].map(d => [d.type, d]));
+        this.storage = rootfs.mount("rootfs", this);
+        this.mounts = [{ source: "rootfs", target: "/", type: rootfs.type, flags: 0 as MountFlag, root: this.storage }];
+
+        this.programs = { ...config.programs };
+        this.sandbox = config.sandbox ?? (typeof Worker !== "undefined" ? createWorkerSandbox : undefined);
+        this.registerPrograms(this.storage, "/");
+        this.references = createReferenceTable(this.storage);
+    }
+
+    /**
+     * ストレージ内の実行ファイルが持つプログラムを、その絶対パスをプログラム名としてプログラムレジストリに登録し、
+     * 実行ファイルの内容をプログラム名ヘッダーを持つ偽の ELF ファイルに置き換えます。
+     * @param directory 探索するディレクトリ
+     * @param pathname ディレクトリの絶対パス
+     */
+    private registerPrograms(directory: Directory, pathname: string): void {
+        for (const entry of directory.children) {
+            const entryPathname = join(pathname, entry.name);
+            if (isExecutableFile(entry) && entry.onStart) {
+                this.programs[entryPathname] ??= entry.onStart;
+                entry.data = generateFakeElfFile(entryPathname).buffer;
+                delete entry.onStart;
+            } else if (isDirectory(entry) && !isVirtualDirectory(entry)) {
+                this.registerPrograms(entry, entryPathname);
+            }
+        }
     }
 
-    /** エミュレーターの動作を開始します。 */
-    public run() {
+    /** ルートファイルシステムのスナップショットを作成します。マウントされた他のファイルシステムは含まれません。 */
+    public snapshot(): Snapshot {
+        return serialize(this.storage, this.references);
+    }
+    /**
+     * スナップショットからルートファイルシステムを復元します。
+     * デバイスファイルと、プログラムを直接持つ実行ファイルは、起動時のストレージの同じパスにあったものに置き換えられます。
+     * @param snapshot スナップショット
+     */
+    public restore(snapshot: Snapshot): void {
+        const root = restore(snapshot, this.references);
+
+        // NOTE: マウントテーブルや開いているファイルが参照しているため、ルートディレクトリのオブジェクトは置き換えない
+        Object.assign(this.storage, { ...root, name: this.storage.name });
+
+        const maxIno = (entry: File): number => Math.max(entry.ino ?? 0, ...isDirectory(entry) ? entry.children.map(maxIno) : []);
+        this.newIno = Math.max(this.newIno, maxIno(this.storage) + 1);
+    }
+    /** ルートファイルシステムを永続化バックエンドに保存します。 */
+    public async save(): Promise<void> {
+        if (this.autosaveTimer !== null) {
+            clearTimeout(this.autosaveTimer);
+            this.autosaveTimer = null;
+        }
+        await this.config.persistence?.save(this.snapshot());
+    }
+    /** ファイルシステムが変更されたことを通知し、永続化バックエンドが指定されている場合は自動保存を予約します。 */
+    public notifyChange(): void {
+        if (!this.config.persistence || this.autosaveTimer !== null) return;
+
+        this.autosaveTimer = setTimeout(() => {
+            this.autosaveTimer = null;
+            this.save().catch(e => this.config.onSaveError?.(e));
+        }, this.config.autosaveDelay ?? 1000);
+    }
+
+    /** 稼働中のすべてのプロセス (プロセス ID 順) */
+    public get processes(): Process[] {
+        return [...this.processTable.values()].sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * 端末デバイスに与える、フォアグラウンドプロセスグループへシグナルを送信する手段を作成します。
+     * @param pathname 端末のパス名
+     */
+    private createTerminalControl(pathname: string): TerminalControl {
+        return {
+            signal: (signal: Signal) => {
+                const pgid = this.foreground[pathname];
+                if (pgid === undefined) return;
+
+                try {
+                    this.rootProcess.kill(-pgid, signal);
+                } catch {}
+            }
+        };
+    }
+
+    /**
+     * 疑似端末を作成します。番号には使用されていない最小のものが割り当てられます。
+     * @param owner スレーブ側の所有者
+     * @param group スレーブ側の所有グループ
+     */
+    public createPty(owner: number, group: number): Pty {
+        let id = 0;
+        while (this.ptys.some(p => p.id === id)) id++;
+
+        const pty = new Pty(id, owner, group);
+        pty.slave.attach!(this.createTerminalControl(pty.name));
+        this.ptys = [...this.ptys, pty].sort((a, b) => a.id - b.id);
+        return pty;
+    }
+    /**
+     * 疑似端末を削除します。スレーブ側の端末はハングアップします。
+     * @param pty 疑似端末
+     */
+    public removePty(pty: Pty): void {
+        pty.slave.discipline.hangup();
+        this.ptys = this.ptys.filter(p => p !== pty);
+        delete this.foreground[pty.name];
+    }
+
+    /**
+     * ルートファイルシステム上のデバイスディレクトリにあるデバイスファイルを取得します。
+     * @param name デバイス名
+     */
+    private findDevice(name: string): DeviceFile | undefined {
+        let entry: File | undefined = this.storage;
+        for (const part of [...resolve(this.DEVICE_DIRECTORY), name]) {
+            entry = entry && isDirectory(entry) ? entry.children.find(c => c.name === part && !c.deleted) : undefined;
+        }
+        return entry && isDeviceFile(entry) ? entry : undefined;
+    }
+
+    /**
+     * ホストの端末を端末デバイスもしくは疑似端末に接続します。既に接続されている端末は切断されます。
+     * @param pathname 端末のパス名 (/dev/tty2 や /dev/pts/0 など)
+     * @param terminal ホストの端末 (createXtermBackend などで作成します)
+     */
+    public connectTerminal(pathname: string, terminal: TerminalBackend): void {
+        const device = this.ptys.find(p => p.name === pathname)?.slave
+            ?? (pathname.startsWith(this.DEVICE_DIRECTORY + "/") ? this.findDevice(pathname.slice(this.DEVICE_DIRECTORY.length + 1)) : undefined);
+        if (!device) throw new ENODEV();
+        if (!device.connect) throw new ENOTTY();
+
+        device.connect(terminal);
+    }
+
+    /**
+     * ホストから開始するプロセスのユーザーと環境を設定します。
+     * ユーザーのホームディレクトリやシェルは、/etc/passwd から取得します。
+     * @param process root として動作しているプロセス
+     * @param options オプション
+     * @returns 実行するシェルと環境変数
+     */
+    private async setupCommandProcess(process: Process, options: CommandOptions): Promise<{ shell: string, env: Record<string, string> }> {
+        const uid = options.uid ?? 0;
+
+        let passwd = "";
         try {
-            this.rootProcess.unlink(this.PROCESS_DIRECTORY, UnlinkFlag.REMOVE_DIR);
+            const fd = process.open("/etc/passwd", OpenFlag.READ);
+            passwd = new TextDecoder().decode(await process.read(fd));
+            process.close(fd);
         } catch {}
-        this.rootProcess.mkdir(this.PROCESS_DIRECTORY, 0o555, true);
+        const [name, , , gid, , home, shell] = passwd.split("\n").map(l => l.split(":")).find(e => e.length >= 7 && parseInt(e[2]) === uid) ?? [];
+
+        process.setgroups([]);
+        // NOTE: /etc/passwd に記載がないユーザーには、root のグループではなくユーザー ID と同じ ID のグループを与える
+        process.setgid(options.gid ?? (gid === undefined ? uid : parseInt(gid)));
+        process.setuid(uid);
+
+        return {
+            shell: options.shell ?? shell ?? "/bin/sh",
+            env: {
+                PATH: "/bin:/sbin",
+                PWD: options.cwd ?? home ?? "/",
+                HOME: home ?? "/",
+                ...name === undefined ? {} : { USER: name, LOGNAME: name },
+                ...shell === undefined ? {} : { SHELL: shell },
+                ...options.env
+            }
+        };
+    }
+
+    /**
+     * 端末を使用せずにシェルでコマンドを実行し、出力と終了ステータスを取得します。
+     * コマンドは制御端末を持たない新しいセッションで `シェル -c コマンド` として実行され、標準入出力はパイプになります。
+     * 起動後 (run の後) に使用してください。
+     * @param command 実行するコマンド
+     * @param options オプション
+     */
+    public async runCommand(command: string, options: RunCommandOptions = {}): Promise<CommandResult> {
+        const emulatorThis = this;
+        const result: CommandResult = { stdout: "", stderr: "", exitCode: 1 };
+
+        await this.rootProcess.spawn(async function () {
+            this.setsid();
+
+            const [stdin, input] = this.pipe();
+            const [output, stdout] = this.pipe();
+            const [errors, stderr] = this.pipe();
+            this.write(input, new TextEncoder().encode(options.stdin ?? "").buffer);
+            this.close(input);
+
+            const { shell, env } = await emulatorThis.setupCommandProcess(this, options);
+            result.exitCode = await this.spawn(async function () {
+                await this.exec(shell, ["-c", command], env);
+            }, { stdio: [stdin, stdout, stderr] });
+            [stdin, stdout, stderr].forEach(fd => this.close(fd));
+
+            // NOTE: パイプの書き込み側がすべて閉じられるまで読み込む
+            const readAll = async (fd: number) => {
+                const decoder = new TextDecoder();
+                let text = "";
+                for (let data = await this.read(fd); data.byteLength !== 0; data = await this.read(fd)) {
+                    text += decoder.decode(data, { stream: true });
+                }
+                return text + decoder.decode();
+            };
+            result.stdout = await readAll(output);
+            result.stderr = await readAll(errors);
+        });
+        return result;
+    }
+
+    /**
+     * 疑似端末上で対話的なシェルを起動し、ホストから操作するためのセッションを作成します。
+     * シェルは疑似端末を制御端末とする新しいセッションで実行されます。起動後 (run の後) に使用してください。
+     * @param options オプション
+     */
+    public openSession(options: CommandOptions = {}): Session {
+        const emulatorThis = this;
+        const pty = this.createPty(options.uid ?? 0, options.gid ?? 0);
+
+        const exited = this.rootProcess.spawn(async function () {
+            // NOTE: 新しいセッションを作成し、疑似端末のスレーブ側を制御端末にする
+            this.setsid();
+            const fd = this.open(pty.name, OpenFlag.READ | OpenFlag.WRITE);
+            [0, 1, 2].forEach(i => this.dup2(fd, i));
+            this.close(fd);
+
+            const { shell, env } = await emulatorThis.setupCommandProcess(this, options);
+            await this.exec(shell, [], env);
+        });
+        return new Session(this, pty, exited);
+    }
+
+    /** エミュレーターの動作を開始します。永続化バックエンドが指定されている場合は、保存されたストレージを復元してから起動します。 */
+    public async run(): Promise<void> {
+        const snapshot = await this.config.persistence?.load();
+        if (snapshot) this.restore(snapshot);
+
+        this.startTime = Date.now();
+
+        // NOTE: procfs を PROCESS_DIRECTORY に、devpts を PTS_DIRECTORY に、設定で指定されたファイルシステムをそれぞれのマウントポイントにマウントする
+        for (const { source, target, type, flags } of [
+            { source: "proc", target: this.PROCESS_DIRECTORY, type: procfs.type },
+            { source: "devpts", target: this.PTS_DIRECTORY, type: devpts.type },
+            ...this.config.mounts ?? []
+        ]) {
+            this.rootProcess.mkdir(target, 0o755, true);
+            this.rootProcess.mount(source, target, type, flags);
+        }
+
+        // NOTE: 端末デバイスに、フォアグラウンドプロセスグループへシグナルを送信する手段を与える
+        let devices: File | undefined = this.storage;
+        for (const name of resolve(this.DEVICE_DIRECTORY)) {
+            devices = devices && isDirectory(devices) ? devices.children.find(c => c.name === name && !c.deleted) : undefined;
+        }
+        for (const device of devices && isDirectory(devices) ? devices.children : []) {
+            if (isDeviceFile(device) && device.attach) device.attach(this.createTerminalControl(join(this.DEVICE_DIRECTORY, device.name)));
+        }
 
         const emulatorThis = this;
         this.rootProcess.spawn(async function () {
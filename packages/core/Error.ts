@@ -15,6 +15,34 @@ export class PathError extends EmulatorError {
     }
 }
 
+/** スナップショットを復元できないエラー */
+export class SnapshotError extends EmulatorError {
+    constructor(message?: string) {
+        super();
+        this.message = message ?? "Invalid snapshot";
+    }
+}
+
+/** アーカイブを読み書きできないエラー */
+export class ArchiveError extends EmulatorError {
+    constructor(message?: string) {
+        super();
+        this.message = message ?? "Invalid archive";
+    }
+}
+
+/** セッションの出力が期待したパターンに一致しなかったエラー */
+export class ExpectError extends EmulatorError {
+    /** 一致しなかった、前回の一致以降の出力 */
+    public output: string;
+
+    constructor(message?: string, output: string = "") {
+        super();
+        this.message = message ?? "Pattern not found";
+        this.output = output;
+    }
+}
+
 /** エミュレーターのシステムエラー */
 export class OSError extends EmulatorError {
     constructor() {
@@ -71,6 +99,78 @@ export class ENOTEMPTY extends OSError {
     }
 }
 
+/** ファイルもしくはディレクトリが既に存在するエラー */
+export class EEXIST extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "File exists: " + entryName;
+    }
+}
+
+/** 異なるファイルシステムをまたぐ操作のエラー */
+export class EXDEV extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Invalid cross-device link: " + entryName;
+    }
+}
+
+/** 読み込み専用のファイルシステムへの変更のエラー */
+export class EROFS extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Read-only file system: " + entryName;
+    }
+}
+
+/** 使用中のためリソースを操作できないエラー */
+export class EBUSY extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Device or resource busy: " + entryName;
+    }
+}
+
+/** 対応するデバイス (ファイルシステムドライバ) が存在しないエラー */
+export class ENODEV extends OSError {
+    constructor() {
+        super();
+        this.message = "No such device";
+    }
+}
+
+/** 実行ファイルの形式が不正であるエラー */
+export class ENOEXEC extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Exec format error: " + entryName;
+    }
+}
+
+/** シンボリックリンクもしくはインタプリタの階層が深すぎるエラー */
+export class ELOOP extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Too many levels of symbolic links: " + entryName;
+    }
+}
+
+/** アクセス権限がないエラー */
+export class EACCES extends OSError {
+    constructor(entryName: string) {
+        super();
+        this.message = "Permission denied: " + entryName;
+    }
+}
+
+/** 操作が許可されていないエラー */
+export class EPERM extends OSError {
+    constructor() {
+        super();
+        this.message = "Operation not permitted";
+    }
+}
+
 /** 有効でないファイルディスクリプタのエラー */
 export class EBADFD extends OSError {
     constructor() {
@@ -78,3 +178,75 @@ export class EBADFD extends OSError {
         this.message = "Invalid file descriptor";
     }
 }
+
+/** 読み込み側が存在しないパイプへの書き込みエラー */
+export class EPIPE extends OSError {
+    constructor() {
+        super();
+        this.message = "Broken pipe";
+    }
+}
+
+/** 該当するプロセスが存在しないエラー */
+export class ESRCH extends OSError {
+    constructor() {
+        super();
+        this.message = "No such process";
+    }
+}
+
+/** 引数が不正であるエラー */
+export class EINVAL extends OSError {
+    constructor() {
+        super();
+        this.message = "Invalid argument";
+    }
+}
+
+/** シグナルによってシステムコールが中断されたエラー */
+export class EINTR extends OSError {
+    constructor() {
+        super();
+        this.message = "Interrupted system call";
+    }
+}
+
+/** 端末ではないエラー */
+export class ENOTTY extends OSError {
+    constructor() {
+        super();
+        this.message = "Not a typewriter";
+    }
+}
+
+/** 該当する子プロセスが存在しないエラー */
+export class ECHILD extends OSError {
+    constructor() {
+        super();
+        this.message = "No child processes";
+    }
+}
+
+/** シグナルによってプロセスが終了させられたことを示すエラー */
+export class TerminatedError extends EmulatorError {
+    /** プロセスを終了させたシグナル */
+    public signal: number;
+
+    constructor(signal: number) {
+        super();
+        this.signal = signal;
+        this.message = "Terminated by signal " + signal;
+    }
+}
+
+/** exit システムコールによってプロセスが終了したことを示すエラー */
+export class ExitError extends EmulatorError {
+    /** 終了ステータス */
+    public status: number;
+
+    constructor(status: number) {
+        super();
+        this.status = status;
+        this.message = "Exited with status " + status;
+    }
+}
@@ -1,4 +1,7 @@
+import { Signal } from "./Flags";
 import { Process } from "./Process";
+import { TerminalBackend, TerminalSize } from "./Terminal";
+import { Termios } from "./Tty";
 
 export interface IFile {
     name: string;
@@ -6,6 +9,17 @@ export interface IFile {
     group: number;
     mode: number;
     deleted: boolean;
+
+    /** ハードリンクの数。省略した場合は 1 として扱われます。 */
+    nlink?: number;
+    /** inode 番号。省略した場合は、最初に参照された際に割り当てられます。 */
+    ino?: number;
+    /** 最終アクセス時刻 (UNIX 時間のミリ秒)。省略した場合はエミュレーターの起動時刻として扱われます。 */
+    atime?: number;
+    /** 最終修正時刻 (UNIX 時間のミリ秒)。省略した場合はエミュレーターの起動時刻として扱われます。 */
+    mtime?: number;
+    /** 最終状態変更時刻 (UNIX 時間のミリ秒)。省略した場合はエミュレーターの起動時刻として扱われます。 */
+    ctime?: number;
 }
 
 export interface RegularFile extends IFile {
@@ -13,27 +27,97 @@ export interface RegularFile extends IFile {
     data: ArrayBuffer;
 }
 
+/** 補完関数が返す補完の結果 */
+export interface Completion {
+    /** 補完する単語の、カーソルより前の入力における開始位置 */
+    start: number;
+    /** 補完する単語を置き換える候補。/ で終わる候補はディレクトリとして扱い、確定しても後に空白を追加しません。 */
+    candidates: string[];
+}
+
+/** lib.io.read のオプション */
+export interface ReadOptions {
+    /** 読み込みの前に表示するプロンプト。補完候補の一覧を表示した後にも再表示されます。 */
+    prompt?: string;
+
+    /** 行編集で Up / Down と Ctrl-R (逆方向インクリメンタル検索) によって呼び出せる入力履歴 (古いものから順) */
+    history?: string[];
+
+    /**
+     * 行編集で Tab によって呼び出される補完関数。
+     * 候補が一つの場合はそれで置き換え、複数の場合は共通する部分まで補完し、続けて Tab を入力すると候補の一覧を表示します。
+     * @param line カーソルより前の入力
+     */
+    complete?: (line: string) => Completion;
+
+    /**
+     * 行末の改行を含めて返すかどうか。既定値は false です。
+     * true の場合は空の行 ("\n") とファイル終端 ("") を区別できます。
+     */
+    newline?: boolean;
+}
+
+/** プログラムが受け取るライブラリ */
+export interface ProgramLibrary {
+    io: {
+        /**
+         * ファイルディスクリプタから読み込みます。
+         * カノニカルモードの端末からは行編集を行って 1 行を読み込みます。行末の改行は options.newline が true の場合のみ含まれます。エコーは端末の ECHO に従います。
+         * ファイル終端 (端末では空の行での Ctrl-D) の場合は空文字列を返します。
+         */
+        read: (fd?: number, options?: ReadOptions) => Promise<string>;
+        write: (val: string | Uint8Array, fd?: number) => void;
+    },
+    path: {
+        absolute: (pathname: string) => string;
+    }
+}
+
+/** プログラム。実行したプロセスを this として呼び出され、終了ステータスを返します。 */
+export type Program = (this: Process, lib: ProgramLibrary) => Promise<number | void>;
+
 export interface ExecutableFile extends IFile {
     type: "executable-file";
+    /** 内容。ヘッダーにプログラム名を含む場合、そのプログラムがプログラムレジストリから取得されて実行されます。 */
     data?: ArrayBuffer;
     protected: boolean;
 
-    onStart(this: Process, lib: {
-        io: {
-            read: (fd?: number, flag?: number) => Promise<string>;
-            write: (val: string | Uint8Array, fd?: number) => void;
-        },
-        path: {
-            absolute: (pathname: string) => string;
-        }
-    }): Promise<void>;
+    /**
+     * 実行するプログラム。
+     * エミュレーターの起動時のストレージに含まれるものはプログラムレジストリに登録され、内容のヘッダーからの参照に置き換えられます。
+     */
+    onStart?: Program;
 }
 
 export interface DeviceFile extends IFile {
     type: "device";
 
-    read(): ArrayBuffer | Promise<ArrayBuffer>;
+    read(signal?: AbortSignal, count?: number): ArrayBuffer | Promise<ArrayBuffer>;
     write(data: ArrayBuffer): void;
+
+    /** 端末デバイスの場合、エミュレーターの起動時に呼び出され、端末を制御するためのオブジェクトを受け取ります。 */
+    attach?(control: TerminalControl): void;
+
+    /** 端末デバイスの場合、端末の属性を取得します。 */
+    tcgetattr?(): Termios;
+
+    /** 端末デバイスの場合、端末の属性を設定します。 */
+    tcsetattr?(termios: Termios): void;
+
+    /** 端末デバイスの場合、ウィンドウサイズを取得します。 */
+    tcgetwinsize?(): TerminalSize;
+
+    /** 端末デバイスの場合、ウィンドウサイズを設定します。 */
+    tcsetwinsize?(size: TerminalSize): void;
+
+    /** 端末デバイスの場合、ホストの端末を接続します。既に接続されている端末は切断されます。 */
+    connect?(terminal: TerminalBackend): void;
+}
+
+/** 端末デバイスからカーネルを操作するためのインタフェース */
+export interface TerminalControl {
+    /** 端末のフォアグラウンドプロセスグループにシグナルを送信します。 */
+    signal(signal: Signal): void;
 }
 
 export interface SymbolicLink extends IFile {
@@ -47,6 +131,15 @@ export interface Directory extends IFile {
     children: File[];
 }
 
+/** 参照したプロセスに応じて、子エントリが参照時に生成されるディレクトリ */
+export interface VirtualDirectory extends Directory {
+    /**
+     * 子エントリを生成します。生成されたエントリへの変更は保存されません。
+     * @param process 参照したプロセス
+     */
+    generate(process: Process): File[];
+}
+
 export type File = RegularFile | ExecutableFile | DeviceFile | SymbolicLink | Directory;
 
 export function getFileType(value: IFile): string {
@@ -67,3 +160,21 @@ export function isSymbolicLink(value: IFile): value is SymbolicLink {
 export function isDirectory(value: IFile): value is Directory {
     return getFileType(value) === "directory";
 }
+export function isVirtualDirectory(value: IFile): value is VirtualDirectory {
+    return isDirectory(value) && "generate" in value;
+}
+
+/**
+ * ファイルを別の名前で参照するハードリンクを作成します。名前と削除フラグ以外の内容はリンク元と共有されます。
+ * @param entry リンク元のエントリ
+ * @param name リンクの名前
+ */
+export function createHardLink<E extends File>(entry: E, name: string): E {
+    const own: Pick<IFile, "name" | "deleted"> = { name, deleted: false };
+    const isOwnKey = (key: string | symbol): key is keyof typeof own => key === "name" || key === "deleted";
+
+    return new Proxy(entry, {
+        get: (target, key) => isOwnKey(key) ? own[key] : Reflect.get(target, key),
+        set: (target, key, value) => isOwnKey(key) ? Reflect.set(own, key, value) : Reflect.set(target, key, value)
+    });
+}
@@ -0,0 +1,72 @@
+import { Emulator } from "./Emulator";
+import { Directory, File } from "./File";
+import { MountFlag } from "./Flags";
+
+/**
+ * ファイルシステムドライバ。
+ * ファイルシステムの内容は File のツリーとして提供され、ディレクトリの探索や一覧の取得は {@link Directory} もしくは VirtualDirectory が、
+ * ファイルの読み書きは RegularFile のデータもしくは DeviceFile の read / write が担います。
+ */
+export interface FileSystemDriver {
+    /** ファイルシステムの種類名 */
+    type: string;
+
+    /**
+     * マウントするファイルシステムのルートディレクトリを生成します。
+     * @param source マウント元。解釈はドライバによって異なります。
+     * @param emulator マウント先のエミュレーター
+     */
+    mount(source: string, emulator: Emulator): Directory;
+}
+
+/** マウントテーブルのエントリ */
+export interface Mount {
+    /** マウント元 */
+    source: string;
+
+    /** マウントポイントの絶対パス */
+    target: string;
+
+    /** ファイルシステムの種類名 */
+    type: string;
+
+    /** マウントフラグ */
+    flags: MountFlag;
+
+    /** マウントされたファイルシステムのルートディレクトリ */
+    root: Directory;
+}
+
+/** 空のディレクトリを、内容をメモリ上に保持するファイルシステムとしてマウントするドライバ */
+export const tmpfs: FileSystemDriver = {
+    type: "tmpfs",
+    mount: () => ({
+        name: "tmpfs",
+        type: "directory",
+        owner: 0,
+        group: 0,
+        mode: 0o1777,
+        deleted: false,
+        children: []
+    })
+};
+
+/**
+ * 与えられたファイルのツリーを内容とする、メモリ上のファイルシステムのドライバを作成します。
+ * マウントするたびにツリーは共有されるため、同じファイルシステムを複数の場所にマウントした場合も内容は同期されます。
+ * @param type ファイルシステムの種類名
+ * @param files ルートディレクトリに配置するファイル
+ */
+export function createMemoryDriver(type: string, files: File[]): FileSystemDriver {
+    const root: Directory = {
+        name: type,
+        type: "directory",
+        owner: 0,
+        group: 0,
+        mode: 0o755,
+        deleted: false,
+        children: files
+    };
+
+    return { type, mount: () => root };
+}
@@ -1,6 +1,23 @@
 export enum OpenFlag {
     READ = 1 << 1,
     WRITE = 1 << 2,
+
+    /** 書き込みを常にファイルの末尾に対して行います。 */
+    APPEND = 1 << 3,
+
+    /** 既存の通常ファイルの内容を空にします。 */
+    TRUNCATE = 1 << 4,
+}
+/** アクセス権限を表すフラグ。値は mode のアクセス保護フィールドの各ビットに対応します。 */
+export enum AccessFlag {
+    /** 実行権限 (ディレクトリの場合は検索権限) */
+    EXECUTE = 1 << 0,
+
+    /** 書き込み権限 */
+    WRITE = 1 << 1,
+
+    /** 読み込み権限 */
+    READ = 1 << 2,
 }
 export enum UnlinkFlag {
     REMOVE_DIR = 1 << 1,
@@ -16,13 +33,85 @@ export enum StatMode {
     /** 通常ファイルである */
     IFREG = 0o100000,
     /** シンボリックリンクである */
-    IFLNK = 0o120000
+    IFLNK = 0o120000,
+    /** FIFO (パイプ) である */
+    IFIFO = 0o010000,
+    /** 実行時に実効ユーザー ID を所有者に変更する (set-user-ID) */
+    ISUID = 0o004000,
+    /** 実行時に実効グループ ID を所有グループに変更する (set-group-ID) */
+    ISGID = 0o002000
+}
+
+export enum MountFlag {
+    /** 読み込み専用でマウントします。 */
+    RDONLY = 1 << 0,
 }
 
-export enum StdReadFlag {
-    /** 入力内容をエコーします。 */
-    ECHO = 1 << 1,
+export enum WaitFlag {
+    /** 終了した子プロセスが存在しない場合、待機せずに戻ります。 */
+    NOHANG = 1 << 0,
+}
+
+/** プロセスの状態。値は ps などで表示される状態コードです。 */
+export enum ProcessState {
+    /** 実行中 */
+    RUNNING = "R",
+    /** 中断可能なシステムコールで待機中 */
+    SLEEPING = "S",
+    /** シグナルによって停止中 */
+    STOPPED = "T",
+    /** 終了し、親プロセスに回収されるのを待っている */
+    ZOMBIE = "Z",
+}
+
+/** 端末の入力モードフラグ。値は Linux の c_iflag に対応します。 */
+export enum InputFlag {
+    /** 入力の CR を NL に変換します。 */
+    ICRNL = 0o000400,
+}
+/** 端末の出力モードフラグ。値は Linux の c_oflag に対応します。 */
+export enum OutputFlag {
+    /** 出力の加工を有効にします。 */
+    OPOST = 0o000001,
+    /** 出力の NL を CR NL に変換します。 */
+    ONLCR = 0o000004,
+}
+/** 端末のローカルモードフラグ。値は Linux の c_lflag に対応します。 */
+export enum LocalFlag {
+    /** 割り込み文字を受け取った際に、フォアグラウンドプロセスグループにシグナルを送信します。 */
+    ISIG = 0o000001,
+    /** カノニカルモード (行単位の入力と編集) を有効にします。 */
+    ICANON = 0o000002,
+    /** 入力をエコーします。 */
+    ECHO = 0o000010,
+    /** ECHO が有効な場合、消去文字で直前の文字を画面から消去します。 */
+    ECHOE = 0o000020,
+    /** ECHO が有効な場合、行消去文字で行を画面から消去します。 */
+    ECHOK = 0o000040,
+    /** ECHO が無効でも NL をエコーします。 */
+    ECHONL = 0o000100,
+    /** 割り込み文字を受け取った際に、入力を破棄しません。 */
+    NOFLSH = 0o000200,
+    /** ECHO が有効な場合、制御文字を ^X の形式でエコーします。 */
+    ECHOCTL = 0o001000,
+}
 
-    /** 改行が入力されるまで読み取ります。 */
-    READ_LINE = 1 << 2,
+/** シグナル */
+export enum Signal {
+    /** 端末の切断 */
+    SIGHUP = 1,
+    /** 端末からの割り込み */
+    SIGINT = 2,
+    /** 強制終了 (捕捉・無視できない) */
+    SIGKILL = 9,
+    /** 終了 */
+    SIGTERM = 15,
+    /** 子プロセスの終了 */
+    SIGCHLD = 17,
+    /** 停止からの再開 */
+    SIGCONT = 18,
+    /** 停止 (捕捉・無視できない) */
+    SIGSTOP = 19,
+    /** 端末のウィンドウサイズの変更 */
+    SIGWINCH = 28,
 }
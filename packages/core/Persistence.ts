@@ -0,0 +1,78 @@
+import { Snapshot } from "./Snapshot";
+
+/** スナップショットを保存・読み込みする永続化バックエンド */
+export interface PersistenceBackend {
+    /**
+     * 保存されたスナップショットを読み込みます。
+     * @returns スナップショット、保存されていない場合は null
+     */
+    load(): Promise<Snapshot | null>;
+
+    /**
+     * スナップショットを保存します。以前に保存されたスナップショットは置き換えられます。
+     * @param snapshot スナップショット
+     */
+    save(snapshot: Snapshot): Promise<void>;
+}
+
+/**
+ * スナップショットを JSON ファイルとして保存する Node.js 用のバックエンドを作成します。
+ * @param pathname 保存先のファイルのパス
+ */
+export function createFileBackend(pathname: string): PersistenceBackend {
+    // NOTE: ブラウザ向けのバンドルに含まれないよう、使用時に読み込む
+    const fs = () => import("node:fs/promises");
+
+    return {
+        async load() {
+            try {
+                return JSON.parse(await (await fs()).readFile(pathname, "utf-8"));
+            } catch (e) {
+                if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+                throw e;
+            }
+        },
+        async save(snapshot) {
+            // NOTE: 書き込み中に終了しても以前のスナップショットが壊れないよう、一時ファイルに書き込んでから置き換える
+            const { writeFile, rename } = await fs();
+            await writeFile(pathname + ".tmp", JSON.stringify(snapshot));
+            await rename(pathname + ".tmp", pathname);
+        }
+    };
+}
+
+/**
+ * スナップショットを IndexedDB に保存するブラウザ用のバックエンドを作成します。
+ * @param databaseName データベース名
+ * @param key スナップショットを保存するキー。複数のエミュレーターを保存する場合は異なるキーを指定してください。
+ */
+export function createIndexedDBBackend(databaseName: string = "kotonemu", key: string = "storage"): PersistenceBackend {
+    const STORE_NAME = "snapshots";
+
+    const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    const open = () => {
+        const req = indexedDB.open(databaseName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+        return request(req);
+    };
+    const transaction = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await open();
+        try {
+            return await request(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+        } finally {
+            db.close();
+        }
+    };
+
+    return {
+        async load() {
+            return (await transaction("readonly", store => store.get(key))) ?? null;
+        },
+        async save(snapshot) {
+            await transaction("readwrite", store => store.put(snapshot, key));
+        }
+    };
+}
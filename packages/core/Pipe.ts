@@ -0,0 +1,76 @@
+import { EPIPE } from "./Error";
+import { concatArrayBuffer } from "./Utils";
+
+/** カーネル内のバッファを用いた匿名パイプ */
+export class Pipe {
+    /** パイプ ID */
+    public readonly id: number;
+
+    /** 読み込み側のファイルディスクリプタの数 */
+    public readers: number = 0;
+
+    /** 書き込み側のファイルディスクリプタの数 */
+    public writers: number = 0;
+
+    /** 読み込まれていないデータ */
+    private buffer: ArrayBuffer = new ArrayBuffer(0);
+
+    /** データの到着を待っている読み込み処理 */
+    private waiting: (() => void)[] = [];
+
+    public constructor(id: number) {
+        this.id = id;
+    }
+
+    /** パイプの名前 */
+    public get name(): string {
+        return `pipe:[${this.id}]`;
+    }
+
+    /**
+     * パイプから読み込みます。データが到着するか、すべての書き込み側が閉じられるまで待機します。
+     * @param count 読み込む最大サイズ
+     * @param signal 待機を中断するためのシグナル
+     */
+    public async read(count: number = Infinity, signal?: AbortSignal): Promise<ArrayBuffer> {
+        while (this.buffer.byteLength === 0 && this.writers > 0) {
+            await new Promise<void>((resolve, reject) => {
+                const onAbort = () => {
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    reject(signal!.reason);
+                };
+                const wake = () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                };
+
+                if (signal?.aborted) return reject(signal.reason);
+                signal?.addEventListener("abort", onAbort, { once: true });
+                this.waiting.push(wake);
+            });
+        }
+
+        // NOTE: すべての書き込み側が閉じられている場合は空のバッファ (EOF) を返す
+        const data = this.buffer.slice(0, count);
+        this.buffer = this.buffer.slice(data.byteLength);
+        return data;
+    }
+
+    /**
+     * パイプに書き込みます。
+     * @param buf 書き込むバッファ
+     */
+    public write(buf: ArrayBuffer): void {
+        if (this.readers === 0) throw new EPIPE();
+
+        this.buffer = concatArrayBuffer(this.buffer, buf);
+        this.notify();
+    }
+
+    /** 読み込み側または書き込み側が閉じられたことを通知します。 */
+    public notify(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(r => r());
+    }
+}
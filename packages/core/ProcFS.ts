@@ -0,0 +1,180 @@
+import { Emulator } from "./Emulator";
+import { Directory, File, isDirectory, isRegularFile, isExecutableFile, isVirtualDirectory, RegularFile, SymbolicLink, VirtualDirectory } from "./File";
+import { FileSystemDriver } from "./FileSystem";
+import { MountFlag, ProcessState } from "./Flags";
+import { Process } from "./Process";
+import { basename } from "./Utils";
+
+/** 仮想的な搭載メモリ量 (KiB) */
+const MEMORY_TOTAL = 1048576;
+/** stat ファイルで時間の単位として使用する、1 秒あたりのクロック刻み数 */
+const CLOCK_TICKS = 100;
+
+/**
+ * 内容を持つ読み込み専用のファイルエントリを生成します。
+ * @param name ファイル名
+ * @param content 内容
+ * @param owner 所有者
+ * @param mode アクセス権限
+ */
+function file(name: string, content: string, owner: number = 0, mode: number = 0o444): RegularFile {
+    return {
+        name,
+        type: "regular-file",
+        owner,
+        group: owner,
+        mode,
+        deleted: false,
+        data: new TextEncoder().encode(content).buffer
+    };
+}
+/**
+ * シンボリックリンクエントリを生成します。
+ * @param name ファイル名
+ * @param target リンク先
+ * @param owner 所有者
+ */
+function symlink(name: string, target: string, owner: number = 0): SymbolicLink {
+    return {
+        name,
+        type: "symlink",
+        owner,
+        group: owner,
+        mode: 0o777,
+        deleted: false,
+        target
+    };
+}
+/**
+ * 仮想ディレクトリエントリを生成します。
+ * @param name ディレクトリ名
+ * @param generate 子エントリを生成する関数
+ * @param owner 所有者
+ * @param mode アクセス権限
+ */
+function directory(name: string, generate: (process: Process) => File[], owner: number = 0, mode: number = 0o555): VirtualDirectory {
+    return {
+        name,
+        type: "directory",
+        owner,
+        group: owner,
+        mode,
+        deleted: false,
+        children: [],
+        generate
+    };
+}
+
+/** status ファイルに表示するプロセスの状態名 */
+const STATE_NAMES: Record<ProcessState, string> = {
+    [ProcessState.RUNNING]: "running",
+    [ProcessState.SLEEPING]: "sleeping",
+    [ProcessState.STOPPED]: "stopped",
+    [ProcessState.ZOMBIE]: "zombie"
+};
+
+/**
+ * 端末のパス名から、stat ファイルに表示するデバイス番号 (上位 8 ビットがメジャー番号、下位 8 ビットがマイナー番号) を取得します。
+ * @param tty 端末のパス名
+ * @returns デバイス番号、仮想コンソールと疑似端末のいずれでもない場合は 0
+ */
+function ttyNumber(tty: string): number {
+    const virtualConsole = tty.match(/^\/dev\/tty(\d+)$/);
+    if (virtualConsole) return (4 << 8) | parseInt(virtualConsole[1]);
+
+    const pts = tty.match(/^\/dev\/pts\/(\d+)$/);
+    return pts ? (136 << 8) | parseInt(pts[1]) : 0;
+}
+
+/**
+ * ストレージ上のファイルが使用しているメモリ量 (バイト) を取得します。
+ * @param entry ディレクトリ
+ */
+function storageUsage(entry: Directory): number {
+    return entry.children.reduce((total, child) =>
+        total + (
+            isVirtualDirectory(child) ? 0 :
+            isDirectory(child) ? storageUsage(child) :
+            isRegularFile(child) || isExecutableFile(child) ? child.data?.byteLength ?? 0 :
+            0
+        ), 0);
+}
+
+/**
+ * プロセスの情報を表すディレクトリを生成します。
+ * @param emulator エミュレーター
+ * @param process 対象のプロセス
+ */
+function processDirectory(emulator: Emulator, process: Process): VirtualDirectory {
+    return directory(process.id.toString(), () => [
+        file("status", [
+            `Name:\t${basename(process.name).slice(0, 15)}`,
+            `State:\t${process.state} (${STATE_NAMES[process.state]})`,
+            `Tgid:\t${process.id}`,
+            `Pid:\t${process.id}`,
+            `PPid:\t${process.getppid()}`,
+            `Pgid:\t${process.pgid}`,
+            `Uid:\t${process.uid}\t${process.euid}\t${process.euid}\t${process.euid}`,
+            `Gid:\t${process.gid}\t${process.egid}\t${process.egid}\t${process.egid}`,
+            `Groups:\t${process.groups.join(" ")}`,
+            `FDSize:\t${process.fd.length}`,
+            ""
+        ].join("\n"), process.uid),
+        // NOTE: Linux と同じ順序で、使用しないフィールドは 0 とする。時間はクロック刻み数、starttime はエミュレーターの起動からの時間で表す
+        file("stat", [
+            process.id,
+            `(${basename(process.name).slice(0, 15)})`,
+            process.state,
+            process.getppid(),
+            process.pgid,
+            process.pgid,
+            ttyNumber(process.tty),
+            emulator.foreground[process.tty] ?? -1,
+            0, 0, 0, 0, 0,
+            Math.floor(process.cpuTime * CLOCK_TICKS / 1000),
+            0, 0, 0, 20, 0, 1, 0,
+            Math.floor((process.startTime - emulator.startTime) * CLOCK_TICKS / 1000),
+            0, 0
+        ].join(" ") + "\n", process.uid),
+        // NOTE: ゾンビプロセスの cmdline は空になる
+        file("cmdline", process.exitStatus !== null ? "" : process.cmdline.map(a => a + "\0").join(""), process.uid),
+        file("environ", Object.entries(process.env).map(([key, value]) => `${key}=${value}\0`).join(""), process.uid, 0o400),
+        symlink("cwd", process.env.PWD ?? "/", process.uid),
+        directory("fd", () => process.fd.map(({ id, description }) =>
+            symlink(id.toString(), description.pipe ? description.pipe.name : description.pathname, process.uid)
+        ), process.uid, 0o500),
+        directory("fdinfo", () => process.fd.map(({ id, description }) =>
+            file(id.toString(), `pos:\t${description.offset}\nflags:\t0${description.flags.toString(8)}\n`, process.uid)
+        ), process.uid, 0o500)
+    ], process.uid);
+}
+
+/** 稼働中のプロセスとシステムの情報を参照時に生成する procfs のドライバ */
+export const procfs: FileSystemDriver = {
+    type: "proc",
+    mount: (_, emulator) => directory("proc", process => {
+        const uptime = ((Date.now() - emulator.startTime) / 1000).toFixed(2);
+        const used = Math.ceil(storageUsage(emulator.storage) / 1024);
+
+        return [
+            symlink("self", process.id.toString()),
+            // NOTE: カーネル (PID 0) は表示しない
+            ...emulator.processes.filter(p => p.id !== 0).map(p => processDirectory(emulator, p)),
+            // NOTE: エミュレーターはほとんどの時間を入力待ちで過ごすため、アイドル時間は稼働時間と同じとする
+            file("uptime", `${uptime} ${uptime}\n`),
+            file("version", `${emulator.info.os_name} version ${emulator.info.os_version} (${emulator.info.nodename})\n`),
+            // NOTE: ストレージ上のファイルはすべてメモリ上に存在するため、使用メモリ量として扱う
+            file("meminfo", [
+                `MemTotal:       ${MEMORY_TOTAL.toString().padStart(8)} kB`,
+                `MemFree:        ${(MEMORY_TOTAL - used).toString().padStart(8)} kB`,
+                `MemAvailable:   ${(MEMORY_TOTAL - used).toString().padStart(8)} kB`,
+                `Buffers:        ${"0".padStart(8)} kB`,
+                `Cached:         ${used.toString().padStart(8)} kB`,
+                ""
+            ].join("\n")),
+            file("mounts", emulator.mounts.map(m =>
+                `${m.source} ${m.target} ${m.type} ${m.flags & MountFlag.RDONLY ? "ro" : "rw"} 0 0\n`
+            ).join(""))
+        ];
+    })
+};
@@ -1,8 +1,21 @@
 import { Emulator, EmulatorInfo } from "./Emulator";
-import { EBADFD, ENOENT, ENOTDIR, EISDIR, EIO, ENOTEMPTY, ELIBBAD } from "./Error";
-import { IFile, Directory, isSymbolicLink, isDirectory, RegularFile, SymbolicLink, isRegularFile, isExecutableFile, isDeviceFile, File } from "./File";
-import { OpenFlag, StatMode, StdReadFlag, UnlinkFlag } from "./Flags";
-import { dirname, basename, join, generateFakeElfFile, concatArrayBuffer, PATH_SEPARATOR, resolve } from "./Utils";
+import { EBADFD, ENOENT, ENOTDIR, EISDIR, EIO, ENOTEMPTY, EEXIST, EXDEV, EROFS, EBUSY, ENODEV, ELIBBAD, ENOEXEC, ELOOP, EACCES, EPERM, ESRCH, EINVAL, EINTR, ENOTTY, ECHILD, OSError, TerminatedError, ExitError } from "./Error";
+import { IFile, Directory, isSymbolicLink, isDirectory, RegularFile, SymbolicLink, isRegularFile, isExecutableFile, isDeviceFile, isVirtualDirectory, createHardLink, File, ExecutableFile, Program, DeviceFile, Completion, ReadOptions } from "./File";
+import { AccessFlag, LocalFlag, MountFlag, OpenFlag, ProcessState, Signal, StatMode, UnlinkFlag, WaitFlag } from "./Flags";
+import { Mount } from "./FileSystem";
+import { Pipe } from "./Pipe";
+import { ptmx, Pty } from "./Pty";
+import { isSandboxModule, runInSandbox } from "./Sandbox";
+import { TerminalSize } from "./Terminal";
+import { Termios } from "./Tty";
+import { dirname, basename, join, generateFakeElfFile, concatArrayBuffer, PATH_SEPARATOR, resolve, readProgramName, splitGraphemes, getStringWidth } from "./Utils";
+
+/** #! 行として読み込む最大の長さ (バイト) */
+const SHEBANG_MAX_LENGTH = 256;
+/** インタプリタスクリプトの入れ子の上限 */
+const MAX_INTERPRETER_DEPTH = 4;
+/** 1 つのパス名の解決でたどるシンボリックリンクの上限 */
+const MAX_SYMLINKS = 40;
 
 /** ファイルの状態を示すインタフェース */
 export interface Stat {
@@ -14,12 +27,28 @@ export interface Stat {
     group: number;
     /** ファイルサイズ */
     size: number;
+    /** inode 番号 */
+    ino: number;
+    /** ハードリンクの数 */
+    nlink: number;
+    /** 最終アクセス時刻 (UNIX 時間のミリ秒) */
+    atime: number;
+    /** 最終修正時刻 (UNIX 時間のミリ秒) */
+    mtime: number;
+    /** 最終状態変更時刻 (UNIX 時間のミリ秒) */
+    ctime: number;
 }
 
-export type FileDescriptorData = {
-    /** ディスクリプタ ID */
-    id: number;
+/** 回収した子プロセスの状態を示すインタフェース */
+export interface WaitStatus {
+    /** プロセス ID */
+    pid: number;
+    /** 終了ステータス。シグナルによって終了した場合は 128 + シグナル番号 */
+    status: number;
+}
 
+/** オープンファイル記述。dup などで複製されたファイルディスクリプタ間で共有されます。 */
+export type OpenFileDescription = {
     /** ファイルへのパス */
     pathname: string;
 
@@ -28,6 +57,20 @@ export type FileDescriptorData = {
 
     /** 読み込み / 書き込みを行うオフセット */
     offset: number;
+
+    /** 参照しているパイプ */
+    pipe?: Pipe;
+
+    /** 参照している疑似端末のマスター側 */
+    pty?: Pty;
+};
+
+export type FileDescriptorData = {
+    /** ディスクリプタ ID */
+    id: number;
+
+    /** 参照しているオープンファイル記述 */
+    description: OpenFileDescription;
 };
 
 /** プロセス定義インタフェース */
@@ -41,6 +84,9 @@ export interface ProcessInit {
     /** プロセスのカレントTTY */
     tty: string;
 
+    /** 親プロセス */
+    parent?: Process;
+
     /** ファイルディスクリプタ */
     fd?: FileDescriptorData[];
 
@@ -49,6 +95,42 @@ export interface ProcessInit {
 
     /** プロセスの環境変数 */
     env: Record<string, string>;
+
+    /** ユーザー ID */
+    uid?: number;
+
+    /** グループ ID */
+    gid?: number;
+
+    /** 実効ユーザー ID */
+    euid?: number;
+
+    /** 実効グループ ID */
+    egid?: number;
+
+    /** 補助グループ ID */
+    groups?: number[];
+
+    /** プロセスグループ ID */
+    pgid?: number;
+
+    /** シグナルハンドラ */
+    signalHandlers?: Partial<Record<Signal, SignalHandler>>;
+}
+
+/**
+ * シグナルを受け取った際の動作。
+ * "default" の場合は既定の動作を、"ignore" の場合はシグナルを無視し、関数の場合はその関数を実行します。
+ */
+export type SignalHandler = "default" | "ignore" | ((this: Process, sig: Signal) => unknown);
+
+/** spawn システムコールのオプション */
+export interface SpawnOptions {
+    /**
+     * 子プロセスの標準入力・標準出力・標準エラー出力に割り当てる、親プロセスのファイルディスクリプタ。
+     * 省略した場合は親プロセスの同じ番号のファイルディスクリプタを引き継ぎ、それも存在しない場合は制御端末を開きます。
+     */
+    stdio?: (number | undefined)[];
 }
 
 /** プロセス */
@@ -74,20 +156,235 @@ export class Process {
     /** 環境変数 */
     public env: Record<string, string>;
 
+    /** 親プロセス。カーネル (PID 0) の場合は null */
+    public parent: Process | null;
+
     /** 子プロセス */
     public children: Process[];
 
+    /** プロセスが生成された時刻 (UNIX 時間のミリ秒) */
+    public startTime: number = Date.now();
+
+    /** ユーザー ID */
+    public uid: number;
+
+    /** グループ ID */
+    public gid: number;
+
+    /** 実効ユーザー ID。アクセス権限の確認に使用されます。 */
+    public euid: number;
+
+    /** 実効グループ ID。アクセス権限の確認に使用されます。 */
+    public egid: number;
+
+    /** 補助グループ ID */
+    public groups: number[];
+
+    /** プロセスグループ ID */
+    public pgid: number;
+
+    /** シグナルハンドラ */
+    public signalHandlers: Partial<Record<Signal, SignalHandler>>;
+
+    /** シグナルによって停止しているかどうか */
+    public stopped: boolean = false;
+
+    /** 終了ステータス。終了していない場合は null で、終了後に親プロセスに回収されるまではゾンビとして children に残ります。 */
+    public exitStatus: number | null = null;
+
+    /** 終了した時刻 (UNIX 時間のミリ秒) */
+    private exitTime: number | null = null;
+
+    /** 中断可能なシステムコールで待機していた時間の合計 (ミリ秒) */
+    private sleepTime: number = 0;
+
+    /** 待機を開始した時刻。待機していない場合は null */
+    private sleepingSince: number | null = null;
+
     private newFdId: number = 0;
 
+    /** プロセスを終了させたシグナル */
+    private terminatedBy: Signal | null = null;
+
+    /** 中断可能な待機中の処理を中断する関数 */
+    private interrupters: Set<(error: Error) => void> = new Set();
+
+    /** 停止からの再開を待っている処理 */
+    private continueWaiters: (() => void)[] = [];
+
+    /** 中断可能なシステムコールで待機しているかどうか */
+    public get waiting(): boolean {
+        return this.interrupters.size > 0;
+    }
+
+    /** プロセスの状態 */
+    public get state(): ProcessState {
+        if (this.exitStatus !== null) return ProcessState.ZOMBIE;
+        if (this.stopped) return ProcessState.STOPPED;
+        return this.waiting ? ProcessState.SLEEPING : ProcessState.RUNNING;
+    }
+
+    /** コマンドライン (プロセス名と引数) */
+    public get cmdline(): string[] {
+        return [this.name, ...this.args];
+    }
+
+    /**
+     * プロセスが CPU を使用した時間 (ミリ秒)。
+     * プロセスは協調的に実行されるため、生成されてから中断可能なシステムコールで待機していなかった時間を使用時間とみなします。
+     */
+    public get cpuTime(): number {
+        const now = this.exitTime ?? Date.now();
+        const sleeping = this.sleepingSince === null ? 0 : now - this.sleepingSince;
+        return Math.max(0, now - this.startTime - this.sleepTime - sleeping);
+    }
+
+    /** 子プロセスの終了を待っている処理。子プロセスを回収した場合は true を返します。 */
+    private childWaiters: ((child: Process) => boolean)[] = [];
+
     public constructor(emulator: Emulator, process: ProcessInit) {
         this.emulator = emulator;
         this.id = process.id;
         this.name = process.name;
         this.tty = process.tty;
+        this.parent = process.parent ?? null;
         this.fd = process.fd ?? [];
         this.children = [];
         this.args = process.args ?? [];
         this.env = process.env;
+        this.uid = process.uid ?? 0;
+        this.gid = process.gid ?? 0;
+        this.euid = process.euid ?? this.uid;
+        this.egid = process.egid ?? this.gid;
+        this.groups = process.groups ?? [];
+        this.pgid = process.pgid ?? this.id;
+        this.signalHandlers = process.signalHandlers ?? {};
+    }
+
+    /** プロセスがシグナルによって終了させられている場合、TerminatedError を投げます。 */
+    private _checkTerminated(): void {
+        if (this.terminatedBy !== null) throw new TerminatedError(this.terminatedBy);
+    }
+    /**
+     * シグナルによって中断可能な待機処理を実行します。
+     * 停止中のプロセスは再開されるまで待機し、プロセスが終了させられると TerminatedError を、シグナルハンドラが実行されると EINTR を投げます。
+     * @param operation 実行する処理。中断された際に後始末を行うための AbortSignal を受け取ります。
+     * @param interruptedByHandler シグナルハンドラの実行によって中断されるかどうか
+     */
+    private async _interruptible<T>(operation: (abortSignal: AbortSignal) => T | Promise<T>, interruptedByHandler: boolean = true): Promise<T> {
+        while (this.stopped && this.terminatedBy === null) {
+            await new Promise<void>(r => this.continueWaiters.push(r));
+        }
+        this._checkTerminated();
+
+        const controller = new AbortController();
+        const interrupter = (error: Error) => {
+            if (error instanceof EINTR && !interruptedByHandler) return;
+            controller.abort(error);
+        };
+        if (this.interrupters.size === 0) this.sleepingSince = Date.now();
+        this.interrupters.add(interrupter);
+
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+                Promise.resolve(operation(controller.signal)).then(resolve, reject);
+            });
+        } finally {
+            this.interrupters.delete(interrupter);
+            if (this.interrupters.size === 0 && this.sleepingSince !== null) {
+                this.sleepTime += Date.now() - this.sleepingSince;
+                this.sleepingSince = null;
+            }
+        }
+    }
+    /**
+     * シグナルによってプロセスを終了させます。
+     * @param sig シグナル
+     */
+    private _terminate(sig: Signal): void {
+        this.terminatedBy = sig;
+        this._continue();
+        [...this.interrupters].forEach(i => i(new TerminatedError(sig)));
+    }
+    /** 停止しているプロセスを再開します。 */
+    private _continue(): void {
+        this.stopped = false;
+        const waiters = this.continueWaiters;
+        this.continueWaiters = [];
+        waiters.forEach(r => r());
+    }
+    /**
+     * シグナルをプロセスに配送します。
+     * @param sig シグナル
+     */
+    private _deliverSignal(sig: Signal): void {
+        if (this.terminatedBy !== null || this.exitStatus !== null) return;
+
+        if (sig === Signal.SIGKILL) {
+            return this._terminate(sig);
+        } else if (sig === Signal.SIGSTOP) {
+            this.stopped = true;
+            return;
+        } else if (sig === Signal.SIGCONT) {
+            this._continue();
+        }
+
+        const handler = this.signalHandlers[sig] ?? "default";
+        if (handler === "ignore") {
+            return;
+        } else if (handler === "default") {
+            // NOTE: SIGCHLD・SIGCONT・SIGWINCH は既定では無視する
+            if (sig !== Signal.SIGCHLD && sig !== Signal.SIGCONT && sig !== Signal.SIGWINCH) this._terminate(sig);
+        } else {
+            [...this.interrupters].forEach(i => i(new EINTR()));
+            queueMicrotask(() => handler.call(this, sig));
+        }
+    }
+
+    /**
+     * 終了したプロセスの後始末を行います。
+     * 待機中のシステムコールを中断し、子プロセスを init (init 自身の場合はカーネル) に引き取らせます。
+     */
+    private _exited(): void {
+        this.exitTime = Date.now();
+        if (this.sleepingSince !== null) {
+            this.sleepTime += this.exitTime - this.sleepingSince;
+            this.sleepingSince = null;
+        }
+        [...this.interrupters].forEach(i => i(new TerminatedError(Signal.SIGKILL)));
+
+        const init = this.emulator.processTable.get(1);
+        const adopter = init && init !== this ? init : this.emulator.rootProcess;
+        for (const child of this.children) {
+            child.parent = adopter;
+            adopter.children.push(child);
+            if (child.exitStatus !== null) adopter._reap(child);
+        }
+        this.children = [];
+    }
+
+    /**
+     * 終了した子プロセスを回収します。
+     * @param child 子プロセス
+     */
+    private _reap(child: Process): WaitStatus {
+        this.children = this.children.filter(p => p !== child);
+        this.emulator.processTable.delete(child.id);
+        return { pid: child.id, status: child.exitStatus! };
+    }
+
+    /**
+     * ファイルディスクリプタが参照する端末デバイスを取得します。
+     * @param fd ファイルディスクリプタ
+     */
+    private _requireTerminal(fd: number): DeviceFile {
+        const { description } = this._requireFileDescriptorData(fd);
+        if (description.pty) return description.pty.slave;
+
+        const entry = description.pipe ? null : this._getEntryFromPathname(description.pathname, true);
+        if (!entry || !isDeviceFile(entry) || !entry.tcgetattr || !entry.tcsetattr) throw new ENOTTY();
+        return entry;
     }
 
     /**
@@ -101,61 +398,189 @@ export class Process {
     }
     /**
      * ファイルディスクリプタを作成します。
-     * @param pathname パス名
-     * @param flags アクセスモード
+     * @param description 参照するオープンファイル記述
+     * @param id ディスクリプタ ID (省略した場合は自動で割り当てられます)
      */
-    private _createFileDescriptor(pathname: string, flags: OpenFlag): Process["fd"][number] {
-        const fdData = {
-            id: this.newFdId,
-            pathname,
-            offset: 0,
-            flags
-        };
+    private _createFileDescriptor(description: OpenFileDescription, id?: number): Process["fd"][number] {
+        if (id === undefined) {
+            while (this.fd.some(f => f.id === this.newFdId)) this.newFdId++;
+            id = this.newFdId;
+            this.newFdId++;
+        }
+
+        const fdData: FileDescriptorData = { id, description };
+        const { pipe, pty, flags } = description;
+        if (pipe) {
+            if (flags & OpenFlag.READ) pipe.readers++;
+            if (flags & OpenFlag.WRITE) pipe.writers++;
+        }
+        if (pty) pty.masters++;
         this.fd.push(fdData);
-        this.newFdId++;
         return fdData;
     }
+    /**
+     * プロセスがエントリに対するアクセス権限を持っているかどうかを確認します。
+     * @param entry エントリ
+     * @param flags 確認するアクセス権限
+     */
+    private _hasPermission(entry: IFile, flags: AccessFlag): boolean {
+        // NOTE: root はすべての権限を持つが、ディレクトリ以外の実行にはいずれかの実行権限が必要
+        if (this.euid === 0) return !(flags & AccessFlag.EXECUTE) || isDirectory(entry) || (entry.mode & 0o111) !== 0;
+
+        const shift =
+            entry.owner === this.euid ? 6 :
+            entry.group === this.egid || this.groups.includes(entry.group) ? 3 :
+            0;
+        return ((entry.mode >> shift) & flags) === flags;
+    }
+    /**
+     * プロセスがエントリに対するアクセス権限を持っていない場合、EACCES を投げます。
+     * @param entry エントリ
+     * @param flags 確認するアクセス権限
+     * @param pathname エラーに表示するパス名
+     */
+    private _requirePermission(entry: IFile, flags: AccessFlag, pathname: string): void {
+        if (!this._hasPermission(entry, flags)) throw new EACCES(pathname);
+    }
+    /**
+     * パス名を絶対パスに変換します。
+     * @param pathname パス名
+     */
+    private _absolute(pathname: string): string {
+        return PATH_SEPARATOR + join(...resolve(pathname, this.env.PWD));
+    }
+    /**
+     * パス名が参照するエントリが属するマウントを取得します。シンボリックリンクはリンク先をたどります。
+     * パス名が存在しない場合は、存在する最も近い親ディレクトリが属するマウントを取得します。
+     * @param pathname パス名
+     */
+    private _getMount(pathname: string): Mount {
+        try {
+            return this._resolveEntry(pathname, true).mount;
+        } catch (e) {
+            const absolute = this._absolute(pathname);
+            if (e instanceof ENOENT && absolute !== PATH_SEPARATOR) return this._getMount(dirname(absolute));
+            throw e;
+        }
+    }
+    /**
+     * パス名がマウントポイントである場合、EBUSY を投げます。
+     * @param pathname パス名
+     */
+    private _requireNotMountPoint(pathname: string): void {
+        const absolute = this._absolute(pathname);
+        if (this.emulator.mounts.some(m => m.target === absolute)) throw new EBUSY(pathname);
+    }
+    /**
+     * パス名が読み込み専用でマウントされたファイルシステムに属する場合、EROFS を投げます。
+     * @param pathname パス名
+     * @param entryName エラーに含めるエントリ名
+     */
+    private _requireWritableFileSystem(pathname: string, entryName: string = pathname): void {
+        if (this._getMount(pathname).flags & MountFlag.RDONLY) throw new EROFS(entryName);
+    }
+    /**
+     * パス名の親ディレクトリを取得し、エントリの作成・削除に必要な権限を確認します。
+     * @param pathname パス名
+     */
+    private _requireWritableParent(pathname: string): Directory {
+        this._requireWritableFileSystem(dirname(pathname), pathname);
+        const parent = this._getEntryFromPathname(dirname(pathname), true);
+        if (!isDirectory(parent)) {
+            throw new ENOTDIR(dirname(pathname));
+        }
+        // NOTE: 仮想ディレクトリの内容は参照時に生成されるため、root であっても変更できない
+        if (isVirtualDirectory(parent)) {
+            throw new EACCES(pathname);
+        }
+
+        this._requirePermission(parent, AccessFlag.WRITE | AccessFlag.EXECUTE, pathname);
+        return parent;
+    }
+    /**
+     * ディレクトリの子エントリの一覧を取得します。仮想ディレクトリの場合は子エントリを生成します。
+     * @param entry ディレクトリ
+     */
+    private _getChildren(entry: Directory): File[] {
+        return isVirtualDirectory(entry) ? entry.generate(this) : entry.children;
+    }
     /**
      * エントリ名を使用して子エントリを取得します。
      * @param entry 親エントリ
      * @param name 子エントリ名
      */
     private _getEntry(entry: Directory, name: string): IFile | null {
-        const e = entry.children.find(e => e.name === name);
-        if (e && e.deleted) return null;
-        return e ?? null;
+        return this._getChildren(entry).find(e => e.name === name && !e.deleted) ?? null;
     }
     /**
      * パス名を使用してエントリを取得します。
      * @param pathname パス名
      * @param resolveSymlinkAsFile シンボリックリンクが参照された際、リンク先を参照するかどうか
+     * @param cwd 相対パスの基準となるディレクトリ
      */
-    private _getEntryFromPathname(pathname: string, resolveSymlinkAsFile: boolean = false): IFile {
-        let pointer: IFile = this.emulator.storage;
+    private _getEntryFromPathname(pathname: string, resolveSymlinkAsFile: boolean = false, cwd: string = this.env.PWD): IFile {
+        return this._resolveEntry(pathname, resolveSymlinkAsFile, cwd).entry;
+    }
+    /**
+     * パス名をたどってエントリを取得し、エントリが属するマウントと、シンボリックリンクを解決した絶対パスを合わせて返します。
+     * @param pathname パス名
+     * @param resolveSymlinkAsFile シンボリックリンクが参照された際、リンク先を参照するかどうか
+     * @param cwd 相対パスの基準となるディレクトリ
+     * @param links これまでにたどったシンボリックリンクの数 (リンク先の解決と共有します)
+     * @throws {ELOOP} たどったシンボリックリンクが MAX_SYMLINKS を超えた場合
+     */
+    private _resolveEntry(pathname: string, resolveSymlinkAsFile: boolean = false, cwd: string = this.env.PWD, links: { count: number } = { count: 0 }): { entry: IFile, mount: Mount, pathname: string } {
+        const findMount = (target: string) => [...this.emulator.mounts].reverse().find(m => m.target === target);
 
-        const entryNames = resolve(pathname, this.env.PWD);
+        let mount = findMount(PATH_SEPARATOR)!;
+        let pointer: IFile = mount.root;
+        let current = PATH_SEPARATOR;
 
-        for (const p of entryNames) {
+        // NOTE: 相対パスのリンク先は、リンクを含むディレクトリを基準に解決する
+        const follow = (link: SymbolicLink) => {
+            if (++links.count > MAX_SYMLINKS) throw new ELOOP(pathname);
+            ({ entry: pointer, mount, pathname: current } = this._resolveEntry(link.target, true, dirname(current), links));
+        };
+
+        for (const name of resolve(pathname, cwd)) {
             if (isSymbolicLink(pointer)) {
-                pointer = this._getEntryFromPathname(pointer.target);
+                follow(pointer);
             }
             if (!isDirectory(pointer)) {
                 throw new ENOENT(pathname);
             }
+            this._requirePermission(pointer, AccessFlag.EXECUTE, pathname);
 
-            const entry: Directory | IFile | null = this._getEntry(pointer ?? this.emulator.storage, p);
+            const entry: Directory | IFile | null = this._getEntry(pointer, name);
             if (entry === null) {
                 throw new ENOENT(pathname);
+            }
+
+            // NOTE: マウントポイントでは、マウントされたファイルシステムのルートディレクトリに移る
+            // シンボリックリンクを経由した場合もマウントを取り違えないよう、実際にたどったパスで判定する
+            current = PATH_SEPARATOR + join(...resolve(name, current));
+
+            // NOTE: 仮想ディレクトリが生成したエントリは参照のたびに作り直されるため、パス名ごとに同じ inode 番号を割り当てる
+            if (isVirtualDirectory(pointer) && entry.ino === undefined) {
+                let ino = this.emulator.generatedInos.get(current);
+                if (ino === undefined) this.emulator.generatedInos.set(current, ino = this.emulator.newIno++);
+                entry.ino = ino;
+            }
+
+            const mounted = findMount(current);
+            if (mounted && isDirectory(entry)) {
+                mount = mounted;
+                pointer = mounted.root;
             } else {
                 pointer = entry;
             }
         }
 
         if (resolveSymlinkAsFile && isSymbolicLink(pointer)) {
-            pointer = this._getEntryFromPathname(pointer.target, true);
+            follow(pointer);
         }
 
-        return pointer;
+        return { entry: pointer, mount, pathname: current };
     }
     /**
      * エントリを作成します。
@@ -168,28 +593,47 @@ export class Process {
         if (!isDirectory(parentEntry)) {
             throw new ENOTDIR(typeof parent === "string" ? parent : "(unknown path)/" + parent.name);
         }
+        if (this._getEntry(parentEntry, entry.name) !== null) {
+            throw new EEXIST(entry.name);
+        }
 
         parentEntry.children.push(entry);
+        this._touch(entry, "atime", "mtime", "ctime");
+        this._touch(parentEntry, "mtime", "ctime");
+    }
+    /**
+     * エントリのタイムスタンプを現在時刻に更新します。
+     * @param entry エントリ
+     * @param fields 更新するタイムスタンプ
+     */
+    private _touch(entry: IFile, ...fields: ("atime" | "mtime" | "ctime")[]): void {
+        const now = Date.now();
+        for (const field of fields) entry[field] = now;
+
+        // NOTE: 内容もしくは属性の変更では必ず mtime か ctime が更新されるため、これを変更の通知とする
+        if (fields.some(f => f !== "atime")) this.emulator.notifyChange();
     }
 
     /**
      * ファイルディスクリプタを開きます。
      * @param pathname パス名
      * @param flags アクセスモード
+     * @param mode ファイルを新しく作成する場合のアクセス権限
      */
-    public open(pathname: string, flags: OpenFlag = 0 as OpenFlag): number {
+    public open(pathname: string, flags: OpenFlag = 0 as OpenFlag, mode: number = 0o644): number {
+        if (flags & OpenFlag.WRITE) this._requireWritableFileSystem(pathname);
+
         let entry;
         try {
             entry = this._getEntryFromPathname(pathname, true);
         } catch (e) {
             if (flags & OpenFlag.WRITE && e instanceof ENOENT) {
-                this._createEntry(dirname(pathname), <RegularFile>{
+                this._createEntry(this._requireWritableParent(pathname), <RegularFile>{
                     name: basename(pathname),
                     type: "regular-file",
-                    // TODO: permission
-                    owner: 0,
-                    group: 0,
-                    mode: 0o777,
+                    owner: this.euid,
+                    group: this.egid,
+                    mode,
                     deleted: false,
                     data: new ArrayBuffer(0)
                 });
@@ -200,22 +644,34 @@ export class Process {
             }
         }
 
-        // TODO: EACCES (flock)
+        // TODO: flock
         if (isDirectory(entry)) {
             throw new EISDIR(pathname);
         }
+        this._requirePermission(entry, (flags & OpenFlag.READ ? AccessFlag.READ : 0) | (flags & OpenFlag.WRITE ? AccessFlag.WRITE : 0), pathname);
 
-        const fd = this._createFileDescriptor(pathname, flags);
-        this._createEntry(join(this.emulator.PROCESS_DIRECTORY, this.id.toString(), "fd"), <SymbolicLink>{
-            name: fd.id.toString(),
-            type: "symlink",
-            owner: 0,
-            group: 0,
-            mode: 0o700,
-            deleted: false,
-            target: pathname
-        });
-        return fd.id;
+        if (flags & OpenFlag.WRITE && flags & OpenFlag.TRUNCATE && isRegularFile(entry)) {
+            entry.data = new ArrayBuffer(0);
+            this._touch(entry, "mtime", "ctime");
+        }
+
+        // NOTE: ptmx を開いた場合は新しい疑似端末を作成し、そのマスター側を参照する
+        if (entry === ptmx) {
+            const pty = this.emulator.createPty(this.euid, this.egid);
+            return this._createFileDescriptor({ pathname: this._absolute(pathname), flags, offset: 0, pty }).id;
+        }
+
+        // NOTE: 制御端末を持たないプロセスが端末を開いた場合、その端末が制御端末になり、プロセスのグループがフォアグラウンドになる
+        if (this.tty === "" && isDeviceFile(entry) && entry.tcgetattr) {
+            this.tty = this._absolute(pathname);
+            this.emulator.foreground[this.tty] = this.pgid;
+        }
+
+        return this._createFileDescriptor({
+            pathname: this._absolute(pathname),
+            flags,
+            offset: 0
+        }).id;
     }
 
     /**
@@ -223,21 +679,56 @@ export class Process {
      * @param fd ファイルディスクリプタ
      */
     public close(fd: number): void {
-        this.unlink(join(this.emulator.PROCESS_DIRECTORY, this.id.toString(), "fd", fd.toString()));
+        const fdd = this._requireFileDescriptorData(fd);
+
         this.fd = this.fd.filter(f => f.id !== fd);
 
+        const { pipe, pty, flags } = fdd.description;
+        if (pipe) {
+            if (flags & OpenFlag.READ) pipe.readers--;
+            if (flags & OpenFlag.WRITE) pipe.writers--;
+            pipe.notify();
+        }
+
+        // NOTE: マスター側がすべて閉じられた疑似端末は削除する
+        if (pty) {
+            pty.masters--;
+            if (pty.masters === 0) this.emulator.removePty(pty);
+        }
+
         // TODO: stdio はどうする？
     }
 
+    /**
+     * ファイルディスクリプタを複製します。複製されたディスクリプタはオフセットなどを共有します。
+     * @param oldfd 複製元のファイルディスクリプタ
+     * @returns 新しいファイルディスクリプタ
+     */
+    public dup(oldfd: number): number {
+        return this._createFileDescriptor(this._requireFileDescriptorData(oldfd).description).id;
+    }
+    /**
+     * ファイルディスクリプタを指定した番号に複製します。newfd が既に開かれている場合は、先に閉じられます。
+     * @param oldfd 複製元のファイルディスクリプタ
+     * @param newfd 複製先のファイルディスクリプタ
+     */
+    public dup2(oldfd: number, newfd: number): number {
+        const { description } = this._requireFileDescriptorData(oldfd);
+        if (oldfd === newfd) return newfd;
+
+        if (this.fd.some(f => f.id === newfd)) this.close(newfd);
+        return this._createFileDescriptor(description, newfd).id;
+    }
+
     /**
      * ファイルの読み込みオフセット位置を変更します。
      * @param fd ファイルディスクリプタ
      * @param offset オフセット位置
      */
     public seek(fd: number, offset: number): void {
-        const fdd = this._requireFileDescriptorData(fd);
+        const { description } = this._requireFileDescriptorData(fd);
         // TODO: offset < 0 || offset > file.length
-        fdd.offset = offset;
+        description.offset = offset;
     }
 
     /**
@@ -246,24 +737,34 @@ export class Process {
      * @param count 読み込む最大サイズ
      */
     public async read(fd: number, count: number = Infinity): Promise<ArrayBuffer> {
-        const fdd = this._requireFileDescriptorData(fd);
+        const { description } = this._requireFileDescriptorData(fd);
 
-        if (!(fdd.flags & OpenFlag.READ)) {
+        if (!(description.flags & OpenFlag.READ)) {
             throw new EBADFD();
         }
 
-        const entry = this._getEntryFromPathname(fdd.pathname, true);
+        if (description.pipe) {
+            const pipe = description.pipe;
+            return await this._interruptible(abortSignal => pipe.read(count, abortSignal));
+        }
+        if (description.pty) {
+            const pty = description.pty;
+            return await this._interruptible(abortSignal => pty.read(count, abortSignal));
+        }
+
+        const entry = this._getEntryFromPathname(description.pathname, true);
         if (isDirectory(entry)) {
-            throw new EISDIR(fdd.pathname);
+            throw new EISDIR(description.pathname);
         }
 
         if (isRegularFile(entry) || isExecutableFile(entry)) {
             if (!entry.data) entry.data = generateFakeElfFile();
-            const data = entry.data.slice(fdd.offset, fdd.offset + count);
-            this.seek(fd, fdd.offset + data.byteLength);
+            const data = entry.data.slice(description.offset, description.offset + count);
+            this.seek(fd, description.offset + data.byteLength);
+            this._touch(entry, "atime");
             return data;
         } else if (isDeviceFile(entry)) {
-            return await entry.read();
+            return await this._interruptible(abortSignal => entry.read(abortSignal, count));
         } else {
             throw new EIO();
         }
@@ -275,23 +776,37 @@ export class Process {
      * @param count 書き込む最大サイズ
      */
     public write(fd: number, buf: ArrayBuffer, count: number = Infinity): void {
-        const fdd = this._requireFileDescriptorData(fd);
+        this._checkTerminated();
+        const { description } = this._requireFileDescriptorData(fd);
 
-        if (!(fdd.flags & OpenFlag.WRITE)) {
+        if (!(description.flags & OpenFlag.WRITE)) {
             throw new EBADFD();
         }
 
-        const entry = this._getEntryFromPathname(fdd.pathname, true);
+        if (description.pipe) {
+            description.pipe.write(buf.slice(0, count));
+            return;
+        }
+        if (description.pty) {
+            description.pty.write(buf.slice(0, count));
+            return;
+        }
+
+        const entry = this._getEntryFromPathname(description.pathname, true);
         if (isDirectory(entry)) {
-            throw new EISDIR(fdd.pathname);
+            throw new EISDIR(description.pathname);
         }
 
         if (isRegularFile(entry)) {
+            if (description.flags & OpenFlag.APPEND) description.offset = entry.data.byteLength;
+
             const data = buf.slice(0, count);
-            entry.data = concatArrayBuffer(entry.data.slice(0, fdd.offset), data, entry.data.slice(fdd.offset));
-            this.seek(fd, fdd.offset + data.byteLength);
+            entry.data = concatArrayBuffer(entry.data.slice(0, description.offset), data, entry.data.slice(description.offset));
+            this.seek(fd, description.offset + data.byteLength);
+            this._touch(entry, "mtime", "ctime");
         } else if (isDeviceFile(entry)) {
             entry.write(buf);
+            this._touch(entry, "mtime");
         } else {
             throw new EIO();
         }
@@ -304,12 +819,32 @@ export class Process {
             (isDeviceFile(entry) ? StatMode.IFCHR : 0) |
             (isSymbolicLink(entry) ? StatMode.IFLNK : 0);
 
+        let size = 0;
+        if (isRegularFile(entry) || isExecutableFile(entry)) {
+            if (!entry.data) entry.data = generateFakeElfFile();
+            size = entry.data.byteLength;
+        } else if (isSymbolicLink(entry)) {
+            size = new TextEncoder().encode(entry.target).byteLength;
+        } else if (isDirectory(entry)) {
+            size = 4096;
+        }
+
+        // NOTE: ディレクトリのリンク数は、自身の . と親からのリンク、サブディレクトリの .. の合計になる
+        const nlink = isDirectory(entry)
+            ? 2 + this._getChildren(entry).filter(c => isDirectory(c) && !c.deleted).length
+            : entry.nlink ?? 1;
+
+        entry.ino ??= this.emulator.newIno++;
         return {
             mode: entry.mode | mode,
             owner: entry.owner,
             group: entry.group,
-            size: 0, // TODO: size
-            // TODO: ctime, atime, mtime
+            size,
+            ino: entry.ino,
+            nlink,
+            atime: entry.atime ?? this.emulator.startTime,
+            mtime: entry.mtime ?? this.emulator.startTime,
+            ctime: entry.ctime ?? this.emulator.startTime
         };
     }
     /**
@@ -331,8 +866,22 @@ export class Process {
      * @param fd ファイルディスクリプタ
      */
     public fstat(fd: number): Stat {
-        const fdd = this._requireFileDescriptorData(fd);
-        const entry = this._getEntryFromPathname(fdd.pathname);
+        const { description } = this._requireFileDescriptorData(fd);
+        if (description.pipe) {
+            return {
+                mode: StatMode.IFIFO | 0o600,
+                owner: 0,
+                group: 0,
+                size: 0,
+                ino: 0,
+                nlink: 1,
+                atime: this.emulator.startTime,
+                mtime: this.emulator.startTime,
+                ctime: this.emulator.startTime
+            };
+        }
+
+        const entry = this._getEntryFromPathname(description.pathname);
         return this._stat(entry);
     }
 
@@ -342,7 +891,9 @@ export class Process {
      * @param flags フラグ
      */
     public unlink(pathname: string, flags: UnlinkFlag = 0 as UnlinkFlag): void {
+        this._requireNotMountPoint(pathname);
         const entry = this._getEntryFromPathname(pathname);
+        const parent = this._requireWritableParent(pathname);
         if (flags & UnlinkFlag.REMOVE_DIR) {
             if (!isDirectory(entry)) {
                 throw new ENOTDIR(pathname);
@@ -359,6 +910,9 @@ export class Process {
         }
 
         entry.deleted = true;
+        if (!isDirectory(entry)) entry.nlink = (entry.nlink ?? 1) - 1;
+        this._touch(entry, "ctime");
+        this._touch(parent, "mtime", "ctime");
     }
 
     /**
@@ -369,11 +923,11 @@ export class Process {
      */
     public mkdir(pathname: string, mode: number, recursive: boolean = false): void {
         try {
-            this._createEntry(dirname(pathname), <Directory>{
+            this._createEntry(this._requireWritableParent(pathname), <Directory>{
                 name: basename(pathname),
                 type: "directory",
-                owner: 0,
-                group: 0,
+                owner: this.euid,
+                group: this.egid,
                 mode,
                 deleted: false,
                 children: []
@@ -382,6 +936,8 @@ export class Process {
             if (recursive && e instanceof ENOENT) {
                 this.mkdir(dirname(pathname), mode, recursive);
                 this.mkdir(pathname, mode, recursive);
+            } else if (recursive && e instanceof EEXIST && isDirectory(this._getEntryFromPathname(pathname, true))) {
+                // NOTE: 再帰的に作成する場合、既存のディレクトリはエラーとしない
             } else {
                 throw e;
             }
@@ -396,24 +952,43 @@ export class Process {
         if (!isDirectory(entry)) {
             throw new ENOTDIR(pathname);
         }
+        this._requirePermission(entry, AccessFlag.READ, pathname);
 
-        return entry.children.filter(c => !c.deleted).map(c => c.name);
+        this._touch(entry, "atime");
+        return this._getChildren(entry).filter(c => !c.deleted).map(c => c.name);
     }
     /**
      * ディレクトリを削除します。
      * @param pathname パス名
      */
     public rmdir(pathname: string): void {
+        this._requireNotMountPoint(pathname);
         const entry = this._getEntryFromPathname(pathname);
         if (!isDirectory(entry)) {
             throw new ENOTDIR(pathname);
         }
+        const parent = this._requireWritableParent(pathname);
 
-        if (entry.children.length > 0) {
+        // NOTE: 削除フラグが立っているエントリは、開いているファイルディスクリプタのために残っているだけであるため数えない
+        if (entry.children.some(c => !c.deleted)) {
             throw new ENOTEMPTY(pathname);
         }
 
         entry.deleted = true;
+        this._touch(parent, "mtime", "ctime");
+    }
+
+    /**
+     * パイプを作成します。
+     * @returns 読み込み側と書き込み側のファイルディスクリプタ
+     */
+    public pipe(): [number, number] {
+        const pipe = new Pipe(this.emulator.newPipeId);
+        this.emulator.newPipeId++;
+
+        const readFd = this._createFileDescriptor({ pathname: pipe.name, flags: OpenFlag.READ, offset: 0, pipe });
+        const writeFd = this._createFileDescriptor({ pathname: pipe.name, flags: OpenFlag.WRITE, offset: 0, pipe });
+        return [readFd.id, writeFd.id];
     }
 
     /**
@@ -422,17 +997,305 @@ export class Process {
      * @param linkpath シンボリックリンクの名前
      */
     public symlink(target: string, linkpath: string): void {
-        this._createEntry(this.env.PWD, <SymbolicLink>{
-            name: linkpath,
+        this._createEntry(this._requireWritableParent(linkpath), <SymbolicLink>{
+            name: basename(linkpath),
             type: "symlink",
-            owner: 0,
-            group: 0,
+            owner: this.euid,
+            group: this.egid,
             mode: 0o777,
             deleted: false,
             target
         });
     }
 
+    /**
+     * ファイルの所有者と所有グループを変更します。
+     * @param pathname パス名
+     * @param owner 所有者 (-1 の場合は変更しません)
+     * @param group 所有グループ (-1 の場合は変更しません)
+     */
+    public chown(pathname: string, owner: number, group: number = -1): void {
+        const entry = this._getEntryFromPathname(pathname, true);
+        this._requireWritableFileSystem(pathname);
+
+        // NOTE: root 以外は、自身が所有するファイルの所有グループを自身が所属するグループに変更することのみができる
+        if (this.euid !== 0) {
+            if (entry.owner !== this.euid || (owner !== -1 && owner !== entry.owner)) throw new EPERM();
+            if (group !== -1 && group !== this.egid && !this.groups.includes(group)) throw new EPERM();
+        }
+
+        if (owner !== -1) entry.owner = owner;
+        if (group !== -1) entry.group = group;
+        this._touch(entry, "ctime");
+    }
+    /**
+     * ファイルのアクセス権限を変更します。ファイルの所有者もしくは root のみが実行できます。
+     * @param pathname パス名
+     * @param mode アクセス権限
+     */
+    public chmod(pathname: string, mode: number): void {
+        this._chmod(this._getEntryFromPathname(pathname, true), mode, pathname);
+    }
+    /**
+     * ファイルディスクリプタが参照するファイルのアクセス権限を変更します。
+     * @param fd ファイルディスクリプタ
+     * @param mode アクセス権限
+     */
+    public fchmod(fd: number, mode: number): void {
+        const { description } = this._requireFileDescriptorData(fd);
+        if (description.pipe) throw new EINVAL();
+
+        this._chmod(this._getEntryFromPathname(description.pathname, true), mode, description.pathname);
+    }
+    private _chmod(entry: IFile, mode: number, pathname: string): void {
+        if (this.euid !== 0 && entry.owner !== this.euid) throw new EPERM();
+        this._requireWritableFileSystem(pathname);
+
+        entry.mode = mode & 0o7777;
+        this._touch(entry, "ctime");
+    }
+
+    /**
+     * ファイルのサイズを変更します。大きくする場合は 0 で埋められます。
+     * @param pathname パス名
+     * @param length 変更後のサイズ
+     */
+    public truncate(pathname: string, length: number): void {
+        const entry = this._getEntryFromPathname(pathname, true);
+        if (isDirectory(entry)) throw new EISDIR(pathname);
+        this._requirePermission(entry, AccessFlag.WRITE, pathname);
+        this._requireWritableFileSystem(pathname);
+
+        this._truncate(entry, length);
+    }
+    /**
+     * ファイルディスクリプタが参照するファイルのサイズを変更します。書き込み可能なファイルディスクリプタである必要があります。
+     * @param fd ファイルディスクリプタ
+     * @param length 変更後のサイズ
+     */
+    public ftruncate(fd: number, length: number): void {
+        const { description } = this._requireFileDescriptorData(fd);
+        if (description.pipe || !(description.flags & OpenFlag.WRITE)) throw new EINVAL();
+
+        this._truncate(this._getEntryFromPathname(description.pathname, true), length);
+    }
+    private _truncate(entry: IFile, length: number): void {
+        if (!isRegularFile(entry) || length < 0) throw new EINVAL();
+
+        const data = new Uint8Array(length);
+        data.set(new Uint8Array(entry.data.slice(0, length)));
+        entry.data = data.buffer;
+        this._touch(entry, "mtime", "ctime");
+    }
+
+    /**
+     * ファイルの最終アクセス時刻と最終修正時刻を変更します。
+     * 時刻を省略した場合は現在時刻に変更し、所有者もしくは書き込み権限を持つプロセスが実行できます。時刻を指定する場合は所有者もしくは root のみが実行できます。
+     * @param pathname パス名
+     * @param atime 最終アクセス時刻 (UNIX 時間のミリ秒)
+     * @param mtime 最終修正時刻 (UNIX 時間のミリ秒)
+     */
+    public utimes(pathname: string, atime?: number, mtime?: number): void {
+        const entry = this._getEntryFromPathname(pathname, true);
+        this._requireWritableFileSystem(pathname);
+        const isOwner = this.euid === 0 || entry.owner === this.euid;
+
+        if (atime === undefined && mtime === undefined) {
+            if (!isOwner) this._requirePermission(entry, AccessFlag.WRITE, pathname);
+            this._touch(entry, "atime", "mtime", "ctime");
+        } else {
+            if (!isOwner) throw new EPERM();
+
+            const now = Date.now();
+            entry.atime = atime ?? now;
+            entry.mtime = mtime ?? now;
+            entry.ctime = now;
+        }
+    }
+
+    /**
+     * シンボリックリンクのリンク先を取得します。
+     * @param pathname パス名
+     */
+    public readlink(pathname: string): string {
+        const entry = this._getEntryFromPathname(pathname);
+        if (!isSymbolicLink(entry)) throw new EINVAL();
+
+        return entry.target;
+    }
+
+    /**
+     * ファイル名 newpath で oldpath へのハードリンクを作成します。ディレクトリのハードリンクは作成できません。
+     * @param oldpath リンク元のパス名
+     * @param newpath 作成するハードリンクのパス名
+     */
+    public link(oldpath: string, newpath: string): void {
+        const entry = this._getEntryFromPathname(oldpath);
+        if (isDirectory(entry)) throw new EPERM();
+        if (this._getMount(dirname(oldpath)) !== this._getMount(dirname(newpath))) throw new EXDEV(newpath);
+
+        // NOTE: スナップショットでハードリンクを識別できるよう、inode 番号を割り当てておく
+        entry.ino ??= this.emulator.newIno++;
+        this._createEntry(this._requireWritableParent(newpath), createHardLink(entry as File, basename(newpath)));
+        entry.nlink = (entry.nlink ?? 1) + 1;
+        this._touch(entry, "ctime");
+    }
+
+    /**
+     * ファイルの名前を変更し、必要であれば別のディレクトリに移動します。
+     * newpath が既に存在する場合は置き換えられます。ディレクトリを置き換える場合、置き換えられるディレクトリは空である必要があります。
+     * @param oldpath 変更前のパス名
+     * @param newpath 変更後のパス名
+     */
+    public rename(oldpath: string, newpath: string): void {
+        const entry = this._getEntryFromPathname(oldpath);
+        const oldParent = this._requireWritableParent(oldpath);
+        const newParent = this._requireWritableParent(newpath);
+
+        const oldAbsolute = this._absolute(oldpath);
+        const newAbsolute = this._absolute(newpath);
+        if (oldAbsolute === newAbsolute) return;
+        this._requireNotMountPoint(oldpath);
+        this._requireNotMountPoint(newpath);
+        if (this._getMount(dirname(oldpath)) !== this._getMount(dirname(newpath))) throw new EXDEV(newpath);
+        // NOTE: ディレクトリを自身の配下に移動することはできない
+        if (isDirectory(entry) && newAbsolute.startsWith(oldAbsolute + PATH_SEPARATOR)) throw new EINVAL();
+
+        const replaced = this._getEntry(newParent, basename(newpath));
+        if (replaced === entry) return;
+        if (replaced !== null) {
+            if (isDirectory(entry) && !isDirectory(replaced)) throw new ENOTDIR(newpath);
+            if (!isDirectory(entry) && isDirectory(replaced)) throw new EISDIR(newpath);
+            if (isDirectory(replaced) && replaced.children.some(c => !c.deleted)) throw new ENOTEMPTY(newpath);
+
+            replaced.deleted = true;
+            if (!isDirectory(replaced)) replaced.nlink = (replaced.nlink ?? 1) - 1;
+            this._touch(replaced, "ctime");
+        }
+
+        // NOTE: 置き換えと移動の間に他の処理が割り込まないよう、同期的に行う
+        oldParent.children = oldParent.children.filter(c => c !== entry);
+        entry.name = basename(newpath);
+        newParent.children.push(entry as File);
+
+        this._touch(entry, "ctime");
+        this._touch(oldParent, "mtime", "ctime");
+        this._touch(newParent, "mtime", "ctime");
+    }
+
+    /**
+     * ファイルに対するアクセス権限を確認します。権限がない場合、EACCES を投げます。
+     * @param pathname パス名
+     * @param flags 確認するアクセス権限
+     */
+    public access(pathname: string, flags: AccessFlag): void {
+        this._requirePermission(this._getEntryFromPathname(pathname, true), flags, pathname);
+    }
+
+    /** プロセス ID を取得します。 */
+    public getpid(): number {
+        return this.id;
+    }
+    /** 親プロセスのプロセス ID を取得します。 */
+    public getppid(): number {
+        return this.parent?.id ?? 0;
+    }
+
+    /** プロセスのユーザー ID を取得します。 */
+    public getuid(): number {
+        return this.uid;
+    }
+    /** プロセスのグループ ID を取得します。 */
+    public getgid(): number {
+        return this.gid;
+    }
+    /** プロセスの実効ユーザー ID を取得します。 */
+    public geteuid(): number {
+        return this.euid;
+    }
+    /** プロセスの実効グループ ID を取得します。 */
+    public getegid(): number {
+        return this.egid;
+    }
+    /** プロセスの補助グループ ID を取得します。 */
+    public getgroups(): number[] {
+        return [...this.groups];
+    }
+    /**
+     * プロセスのユーザー ID を設定します。
+     * 実効ユーザー ID が root の場合はユーザー ID と実効ユーザー ID の両方を、それ以外の場合は実効ユーザー ID をユーザー ID に戻すことのみができます。
+     * @param uid ユーザー ID
+     */
+    public setuid(uid: number): void {
+        if (this.euid === 0) {
+            this.uid = uid;
+        } else if (uid !== this.uid) {
+            throw new EPERM();
+        }
+        this.euid = uid;
+    }
+    /**
+     * プロセスのグループ ID を設定します。
+     * 実効ユーザー ID が root の場合はグループ ID と実効グループ ID の両方を、それ以外の場合は実効グループ ID をグループ ID に戻すことのみができます。
+     * @param gid グループ ID
+     */
+    public setgid(gid: number): void {
+        if (this.euid === 0) {
+            this.gid = gid;
+        } else if (gid !== this.gid) {
+            throw new EPERM();
+        }
+        this.egid = gid;
+    }
+    /**
+     * プロセスの補助グループ ID を設定します。実効ユーザー ID が root の場合のみ実行できます。
+     * @param groups 補助グループ ID
+     */
+    public setgroups(groups: number[]): void {
+        if (this.euid !== 0) throw new EPERM();
+        this.groups = [...groups];
+    }
+
+    /**
+     * ファイルシステムをマウントします。実効ユーザー ID が root の場合のみ実行できます。
+     * @param source マウント元。解釈はファイルシステムドライバによって異なります。
+     * @param target マウントポイント (既存のディレクトリ)
+     * @param type ファイルシステムの種類名
+     * @param flags マウントフラグ
+     */
+    public mount(source: string, target: string, type: string, flags: MountFlag = 0 as MountFlag): void {
+        if (this.euid !== 0) throw new EPERM();
+
+        const driver = this.emulator.drivers[type];
+        if (!driver) throw new ENODEV();
+        // NOTE: パス名の解決時に実際にたどったパスで判定するため、マウントポイントはシンボリックリンクを解決したパスで記録する
+        const { entry, pathname } = this._resolveEntry(target, true);
+        if (!isDirectory(entry)) throw new ENOTDIR(target);
+
+        this.emulator.mounts.push({ source, target: pathname, type, flags, root: driver.mount(source, this.emulator) });
+    }
+    /**
+     * ファイルシステムをアンマウントします。実効ユーザー ID が root の場合のみ実行できます。
+     * ファイルシステム内のファイルを開いている、もしくはカレントディレクトリとしているプロセスが存在する場合は EBUSY を投げます。
+     * @param target マウントポイント
+     */
+    public umount(target: string): void {
+        if (this.euid !== 0) throw new EPERM();
+
+        const absolute = this._resolveEntry(target, true).pathname;
+        const mount = [...this.emulator.mounts].reverse().find(m => m.target === absolute);
+        if (!mount) throw new EINVAL();
+
+        const inside = (pathname: string) => pathname === absolute || pathname.startsWith(absolute + PATH_SEPARATOR);
+        const busy =
+            absolute === PATH_SEPARATOR ||
+            this.emulator.mounts.some(m => m !== mount && m.target !== absolute && inside(m.target)) ||
+            this.emulator.processes.some(p => inside(p._absolute(p.env.PWD ?? PATH_SEPARATOR)) || p.fd.some(f => !f.description.pipe && inside(f.description.pathname)));
+        if (busy) throw new EBUSY(target);
+
+        this.emulator.mounts = this.emulator.mounts.filter(m => m !== mount);
+    }
+
     /**
      * 稼働中のエミュレーターについての名前と情報を取得します。
      */
@@ -441,96 +1304,411 @@ export class Process {
     }
 
     /**
-     * プロセスを新しく生成します。
-     * @param callback 実行するマイクロプロセス
+     * プロセスにシグナルを送信します。
+     * @param pid 送信先のプロセス ID。0 の場合は自身のプロセスグループ、-1 の場合は init 以外の全プロセス、-1 未満の場合は -pid のプロセスグループに送信します。
+     * @param sig シグナル。0 の場合は送信先が存在するかどうかのみを確認します。
+     */
+    public kill(pid: number, sig: Signal | 0): void {
+        if (sig !== 0 && Signal[sig] === undefined) throw new EINVAL();
+
+        const targets = this.emulator.processes.filter(p =>
+            p.id !== 0 && (
+                pid > 0 ? p.id === pid :
+                pid === 0 ? p.pgid === this.pgid :
+                pid === -1 ? p.id !== 1 && p !== this :
+                p.pgid === -pid
+            )
+        );
+        if (targets.length === 0) throw new ESRCH();
+
+        const permitted = targets.filter(p => this.euid === 0 || this.uid === p.uid || this.euid === p.uid);
+        if (permitted.length === 0) throw new EPERM();
+
+        if (sig !== 0) permitted.forEach(p => p._deliverSignal(sig));
+    }
+    /**
+     * シグナルを受け取った際の動作を設定します。
+     * @param sig シグナル (SIGKILL と SIGSTOP は設定できません)
+     * @param handler 動作
+     * @returns 以前の動作
+     */
+    public signal(sig: Signal, handler: SignalHandler): SignalHandler {
+        if (sig === Signal.SIGKILL || sig === Signal.SIGSTOP || Signal[sig] === undefined) throw new EINVAL();
+
+        const previous = this.signalHandlers[sig] ?? "default";
+        this.signalHandlers[sig] = handler;
+        return previous;
+    }
+    /**
+     * 指定した時間だけ待機します。シグナルによって中断されます。
+     * @param ms 待機する時間 (ミリ秒)
+     */
+    public async sleep(ms: number): Promise<void> {
+        await this._interruptible(abortSignal => new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, ms);
+            abortSignal.addEventListener("abort", () => clearTimeout(timer), { once: true });
+        }));
+    }
+
+    /** プロセスグループ ID を取得します。 */
+    public getpgrp(): number {
+        return this.pgid;
+    }
+    /**
+     * プロセスグループ ID を設定します。
+     * @param pid 対象のプロセス ID (0 の場合は自身)。自身もしくは子プロセスのみを指定できます。
+     * @param pgid プロセスグループ ID (0 の場合は対象のプロセス ID)
+     */
+    public setpgid(pid: number, pgid: number): void {
+        const target = pid === 0 || pid === this.id ? this : this.children.find(p => p.id === pid);
+        if (!target) throw new ESRCH();
+        if (pgid < 0) throw new EINVAL();
+
+        target.pgid = pgid === 0 ? target.id : pgid;
+    }
+    /**
+     * 新しいセッションを作成します。プロセスは新しいプロセスグループのリーダーになり、制御端末を持たなくなります。
+     * @returns 新しいセッション ID
+     */
+    public setsid(): number {
+        // NOTE: プロセスグループのリーダーは既存のグループから抜けられないため、セッションを作成できない
+        if (this.pgid === this.id) throw new EPERM();
+
+        this.pgid = this.id;
+        this.tty = "";
+        return this.id;
+    }
+    /**
+     * 端末のフォアグラウンドプロセスグループを取得します。
+     * @param fd 制御端末を参照するファイルディスクリプタ
+     */
+    public tcgetpgrp(fd: number): number {
+        if (this._requireFileDescriptorData(fd).description.pathname !== this.tty) throw new ENOTTY();
+        return this.emulator.foreground[this.tty] ?? this.pgid;
+    }
+    /**
+     * 端末のフォアグラウンドプロセスグループを設定します。
+     * @param fd 制御端末を参照するファイルディスクリプタ
+     * @param pgid プロセスグループ ID
+     */
+    public tcsetpgrp(fd: number, pgid: number): void {
+        if (this._requireFileDescriptorData(fd).description.pathname !== this.tty) throw new ENOTTY();
+        this.emulator.foreground[this.tty] = pgid;
+    }
+    /**
+     * 端末の属性を取得します。
+     * @param fd 端末を参照するファイルディスクリプタ
+     */
+    public tcgetattr(fd: number): Termios {
+        return this._requireTerminal(fd).tcgetattr!();
+    }
+    /**
+     * 端末の属性を設定します。待機中の読み込みは新しい属性に従います。
+     * @param fd 端末を参照するファイルディスクリプタ
+     * @param termios 端末の属性
+     */
+    public tcsetattr(fd: number, termios: Termios): void {
+        this._requireTerminal(fd).tcsetattr!(termios);
+    }
+    /**
+     * 端末のウィンドウサイズを取得します。
+     * @param fd 端末を参照するファイルディスクリプタ
+     */
+    public tcgetwinsize(fd: number): TerminalSize {
+        const terminal = this._requireTerminal(fd);
+        if (!terminal.tcgetwinsize) throw new ENOTTY();
+        return terminal.tcgetwinsize();
+    }
+    /**
+     * 端末のウィンドウサイズを設定します。サイズが変わった場合、端末のフォアグラウンドプロセスグループに SIGWINCH が送信されます。
+     * @param fd 端末を参照するファイルディスクリプタ
+     * @param size ウィンドウサイズ
+     */
+    public tcsetwinsize(fd: number, size: TerminalSize): void {
+        const terminal = this._requireTerminal(fd);
+        if (!terminal.tcsetwinsize) throw new ENOTTY();
+        terminal.tcsetwinsize(size);
+    }
+
+    /**
+     * 疑似端末のスレーブ側のパス名を取得します。
+     * @param fd 疑似端末のマスター側を参照するファイルディスクリプタ
+     */
+    public ptsname(fd: number): string {
+        const { pty } = this._requireFileDescriptorData(fd).description;
+        if (!pty) throw new ENOTTY();
+        return pty.name;
+    }
+
+    /**
+     * プロセスを終了します。
+     * @param status 終了ステータス (下位 8 ビットのみが使用されます)
      */
-    public async spawn(callback: (this: Process) => Promise<unknown>): Promise<void> {
+    public exit(status: number = 0): never {
+        throw new ExitError(status & 0xff);
+    }
+    /** いずれかの子プロセスが終了するまで待機し、回収します。 */
+    public async wait(): Promise<WaitStatus> {
+        return (await this.waitpid(-1))!;
+    }
+    /**
+     * 子プロセスが終了するまで待機し、回収します。
+     * @param pid 待機する子プロセスの ID。-1 の場合はすべての子プロセス、0 の場合は自身と同じプロセスグループ、-1 未満の場合は -pid のプロセスグループの子プロセスを待機します。
+     * @param flags フラグ
+     * @returns 回収した子プロセスの状態。WaitFlag.NOHANG が指定され、終了した子プロセスが存在しない場合は null
+     */
+    public async waitpid(pid: number = -1, flags: WaitFlag | 0 = 0): Promise<WaitStatus | null> {
+        const matches = (child: Process) =>
+            pid > 0 ? child.id === pid :
+            pid === 0 ? child.pgid === this.pgid :
+            pid === -1 ? true :
+            child.pgid === -pid;
+
+        const candidates = this.children.filter(matches);
+        if (candidates.length === 0) throw new ECHILD();
+
+        const zombie = candidates.find(p => p.exitStatus !== null);
+        if (zombie) return this._reap(zombie);
+        if (flags & WaitFlag.NOHANG) return null;
+
+        // NOTE: 子プロセスは終了時に待機中の処理へ自身を渡し、対象であればその場で回収される
+        return await this._interruptible(abortSignal => new Promise<WaitStatus>(resolve => {
+            const waiter = (child: Process) => {
+                if (!matches(child)) return false;
+
+                this.childWaiters = this.childWaiters.filter(w => w !== waiter);
+                resolve(this._reap(child));
+                return true;
+            };
+            this.childWaiters.push(waiter);
+            abortSignal.addEventListener("abort", () => {
+                this.childWaiters = this.childWaiters.filter(w => w !== waiter);
+            }, { once: true });
+        }));
+    }
+
+    /**
+     * プロセスを新しく生成し、終了するまで待機します。終了した子プロセスは wait / waitpid で回収されていない場合、この関数が回収します。
+     * @param callback 実行するマイクロプロセス。数値を返した場合は終了ステータスとして扱われます。
+     * @param options オプション
+     * @returns 終了ステータス
+     */
+    public async spawn(callback: (this: Process) => Promise<unknown>, options: SpawnOptions = {}): Promise<number> {
         const process = new Process(this.emulator, {
             id: this.emulator.newPid,
             name: "New Process",
             tty: this.tty,
-            env: this.env
+            parent: this,
+            env: { ...this.env },
+            uid: this.uid,
+            gid: this.gid,
+            euid: this.euid,
+            egid: this.egid,
+            groups: [...this.groups],
+            pgid: this.pgid,
+            signalHandlers: { ...this.signalHandlers }
         });
         this.emulator.newPid++;
         this.children.push(process);
+        this.emulator.processTable.set(process.id, process);
 
-        const processDir = join(this.emulator.PROCESS_DIRECTORY, process.id.toString());
-
-        process.mkdir(join(processDir, "fd"), 0o555, true);
-        // TODO: /proc/self
-        // TODO: /proc 配下を動的に生成
-        // TODO: /proc/self/fdinfo
-        process.open(process.tty, OpenFlag.READ);
-        process.open(process.tty, OpenFlag.WRITE);
-        process.open(process.tty, OpenFlag.WRITE);
+        [OpenFlag.READ, OpenFlag.WRITE, OpenFlag.WRITE].forEach((flags, i) => {
+            const parentFd = options.stdio?.[i] ?? (this.fd.some(f => f.id === i) ? i : undefined);
+            if (parentFd === undefined) {
+                // NOTE: 制御端末を持たない場合は開かない
+                if (process.tty !== "") process.open(process.tty, flags);
+            } else {
+                process._createFileDescriptor(this._requireFileDescriptorData(parentFd).description, i);
+            }
+        });
 
-        await callback.bind(process)();
-        this.children = this.children.filter(p => p.id !== process.id);
+        const running = (async () => {
+            let status = 1;
+            try {
+                const result = await callback.bind(process)();
+                status = typeof result === "number" ? result & 0xff : 0;
+            } catch (e) {
+                if (e instanceof ExitError) {
+                    status = e.status;
+                } else if (e instanceof TerminatedError) {
+                    status = 128 + e.signal;
+                } else if (!(e instanceof OSError)) {
+                    // NOTE: 捕捉されなかった OSError は異常終了として扱い、それ以外はエミュレーターの不具合として投げ直す
+                    throw e;
+                }
+            } finally {
+                [...process.fd].forEach(f => process.close(f.id));
+                process.exitStatus = status;
+                process._exited();
+
+                // NOTE: 待機中の処理が存在しない場合はゾンビとして残す。init に引き取られたプロセスは init が回収する
+                const parent = process.parent!;
+                if (!parent.childWaiters.some(w => w(process)) && parent !== this) parent._reap(process);
+                if (parent.id !== 0) parent._deliverSignal(Signal.SIGCHLD);
+            }
+        })();
 
-        this.unlink(processDir, UnlinkFlag.REMOVE_DIR);
+        try {
+            // NOTE: 親プロセスが終了させられた場合は子プロセスの終了を待たない
+            await this._interruptible(() => running, false);
+        } finally {
+            if (process.exitStatus !== null && this.children.includes(process)) this._reap(process);
+        }
+        return process.exitStatus!;
     }
 
     /**
-     * 現在のプロセスで実行可能ファイルを実行します。
+     * 現在のプロセスで実行可能ファイルを実行します。実行に成功した場合、プログラムの終了とともにプロセスが終了するため戻りません。
      * @param pathname パス名
      * @param args 引数
      * @param env 環境変数
      */
-    public async exec(pathname: string, args: string[] = [], env: Record<string, string> = {}): Promise<any> {
-        const entry = this._getEntryFromPathname(pathname, true);
+    public async exec(pathname: string, args: string[] = [], env: Record<string, string> = {}): Promise<never> {
+        this._checkTerminated();
+        let entry = this._getEntryFromPathname(pathname, true);
+        this._requirePermission(entry, AccessFlag.EXECUTE, pathname);
+
+        // NOTE: プログラムを持たないファイルのうち #! で始まるスクリプトは、インタプリタにスクリプトのパス名を引数として渡して実行する (binfmt_script)
+        let program = this._getProgram(entry, pathname);
+        for (let depth = 0; program === null; depth++) {
+            if (!isRegularFile(entry) && !isExecutableFile(entry)) throw new ELIBBAD(pathname);
+
+            const interpreter = this._parseShebang(entry);
+            if (interpreter === null) throw new ENOEXEC(pathname);
+            if (depth >= MAX_INTERPRETER_DEPTH) throw new ELOOP(pathname);
+
+            args = [...interpreter.args, pathname, ...args];
+            pathname = interpreter.pathname;
+            entry = this._getEntryFromPathname(pathname, true);
+            this._requirePermission(entry, AccessFlag.EXECUTE, pathname);
+            program = this._getProgram(entry, pathname);
+        }
+        this._touch(entry, "atime");
 
         this.name = pathname;
+        // NOTE: set-user-ID / set-group-ID ビットが立っている場合、実効 ID をファイルの所有者に変更する
+        if (entry.mode & StatMode.ISUID) this.euid = entry.owner;
+        if (entry.mode & StatMode.ISGID) this.egid = entry.group;
+        // NOTE: 捕捉していたシグナルの動作は既定の動作に戻す
+        for (const sig of Object.keys(this.signalHandlers).map(Number) as Signal[]) {
+            if (typeof this.signalHandlers[sig] === "function") delete this.signalHandlers[sig];
+        }
         // TODO: deep copy
         this.args = args;
         this.env = { ...this.env, ...env };
 
-        if (isExecutableFile(entry)) {
-            // TODO: permission check
+        const p = this;
+        /** 行編集で読み込みすぎた、ファイルディスクリプタごとの入力 */
+        const pending = new Map<number, ArrayBuffer>();
+        const result = await program.bind(this)({
+            io: {
+                async read(fd = 0, options = {}) {
+                    if (options.prompt) this.write(options.prompt);
+
+                    let termios: Termios | null = null;
+                    try {
+                        termios = p.tcgetattr(fd);
+                    } catch (e) {
+                        if (!(e instanceof ENOTTY)) throw e;
+                    }
+                    if (!termios || !(termios.lflag & LocalFlag.ICANON)) {
+                        return new TextDecoder("utf-8").decode(await p.read(fd));
+                    }
 
-            const p = this;
-            await entry.onStart.bind(this)({
-                io: {
-                    async read(fd = 0, flag = StdReadFlag.ECHO | StdReadFlag.READ_LINE) {
-                        const instance = new ReadInstance();
+                    // NOTE: カノニカルモードの端末では、端末を非カノニカルモードにしてカーソル移動などを含む行編集を自身で行う
+                    const echo = termios.lflag & LocalFlag.ECHO;
+                    p.tcsetattr(fd, { ...termios, lflag: termios.lflag & ~(LocalFlag.ICANON | LocalFlag.ECHO), cc: { ...termios.cc, VMIN: 1, VTIME: 0 } });
+                    try {
+                        // NOTE: 端末のウィンドウサイズを取得できない場合は、環境変数 COLUMNS に従う
+                        let columns = parseInt(p.env.COLUMNS ?? "80");
+                        try {
+                            columns = p.tcgetwinsize(fd).columns;
+                        } catch (e) {
+                            if (!(e instanceof ENOTTY)) throw e;
+                        }
+                        const instance = new ReadInstance(options, columns, termios.cc.VEOF);
                         while (true) {
-                            const rawVal = new Uint8Array(await p.read(fd));
-                            let strVal = new TextDecoder("utf-8").decode(rawVal);
-
-                            if (flag & StdReadFlag.READ_LINE) {
-                                const response = instance.process(rawVal);
+                            const rawVal = pending.get(fd) ?? await p.read(fd);
+                            pending.delete(fd);
+                            const response = instance.process(rawVal);
 
-                                if (flag & StdReadFlag.ECHO) {
-                                    this.write(response);
-                                }
+                            if (echo) {
+                                this.write(response);
+                            }
 
-                                if (instance.hasEnded) {
-                                    if (!(flag & StdReadFlag.ECHO)) {
-                                        this.write("\n");
-                                    }
-                                    return instance.line;
-                                }
-                            } else {
-                                if (flag & StdReadFlag.ECHO) {
-                                    this.write(strVal);
+                            if (instance.hasEnded) {
+                                if (!echo && !instance.eof) {
+                                    this.write("\n");
                                 }
-
-                                return strVal;
+                                if (instance.rest !== "") pending.set(fd, new TextEncoder().encode(instance.rest).buffer);
+                                return instance.eof ? "" : instance.line + (options.newline ? "\n" : "");
                             }
                         }
-                    },
-                    write(val, fd = 1) {
-                        p.write(fd, typeof val === "string" ? new TextEncoder().encode(val) : val);
-                    },
+                    } catch (e) {
+                        // NOTE: 端末のエコーを無効にしているため、割り込み文字のエコーは自身で行う
+                        if (echo && (e instanceof EINTR || e instanceof TerminatedError && e.signal === Signal.SIGINT)) this.write("^C");
+                        throw e;
+                    } finally {
+                        p.tcsetattr(fd, termios);
+                    }
                 },
-                path: {
-                    absolute: (pathname: string) => PATH_SEPARATOR + join(...resolve(pathname, this.env.PWD))
-                }
-            });
-        } else if (isRegularFile(entry)) {
-            // TODO: interpreter script
-        } else {
-            throw new ELIBBAD(pathname);
+                write(val, fd = 1) {
+                    p.write(fd, typeof val === "string" ? new TextEncoder().encode(val) : val);
+                },
+            },
+            path: {
+                absolute: (pathname: string) => PATH_SEPARATOR + join(...resolve(pathname, this.env.PWD))
+            }
+        });
+
+        // NOTE: プログラムの終了はプロセスの終了であり、exec は戻らない
+        this.exit(typeof result === "number" ? result : 0);
+    }
+    /**
+     * 実行ファイルが実行するプログラムを取得します。
+     * 内容にプログラム名ヘッダーを含む場合はプログラムレジストリから取得し、サンドボックスで実行するモジュールの場合はそれを実行するプログラムを返します。
+     * @param entry 実行ファイル
+     * @param pathname エラーに表示するパス名
+     * @returns プログラム、プログラムを持たない場合は null
+     */
+    private _getProgram(entry: IFile, pathname: string): Program | null {
+        if (isExecutableFile(entry) && entry.onStart) return entry.onStart;
+        if (!isRegularFile(entry) && !isExecutableFile(entry)) return null;
+
+        const data = entry.data;
+        if (!data) return null;
+
+        // NOTE: #!kotonejs で始まるファイルは、サンドボックスで ES モジュールとして実行する
+        if (isSandboxModule(data)) {
+            const process = this;
+            return function (lib) {
+                return process._interruptible(abortSignal => runInSandbox(process, lib, data, abortSignal, process.emulator.sandbox), false);
+            };
         }
+
+        const name = readProgramName(data);
+        if (name === null) return null;
+
+        // NOTE: 登録されていないプログラムを参照する実行ファイルは、共有ライブラリが見つからない場合と同様に扱う
+        const program = this.emulator.programs[name];
+        if (!program) throw new ELIBBAD(pathname);
+        return program;
+    }
+    /**
+     * スクリプトの先頭行の #! からインタプリタを取得します。
+     * Linux と同様に、インタプリタのパス名の後の文字列は空白を含めて一つの引数として扱います。
+     * @param entry スクリプトファイル
+     * @returns インタプリタのパス名と引数、#! で始まらない場合は null
+     */
+    private _parseShebang(entry: RegularFile | ExecutableFile): { pathname: string, args: string[] } | null {
+        const head = new TextDecoder().decode((entry.data ?? new ArrayBuffer(0)).slice(0, SHEBANG_MAX_LENGTH));
+        if (!head.startsWith("#!")) return null;
+
+        const line = head.slice(2).split("\n")[0].trim();
+        const match = line.match(/^(\S+)(?:\s+(.*))?$/);
+        if (!match) return null;
+
+        return { pathname: match[1], args: match[2] ? [match[2]] : [] };
     }
 
 }
@@ -541,13 +1719,48 @@ export class ReadInstance {
     public buffer: { forward: string; backward: string; };
     /** 読み込みが完了したかどうか */
     public hasEnded: boolean;
+    /** 空の行で VEOF (既定では Ctrl-D) が入力され、ファイル終端として読み込みが完了したかどうか */
+    public eof: boolean = false;
+    /** 読み込みが完了した後に残った、処理していない入力 */
+    public rest: string = "";
+
+    /** 入力履歴 (古いものから順) */
+    private history: string[];
+    /** 表示している入力履歴の位置。history.length の場合は編集中の行を表示している */
+    private historyIndex: number;
+    /** 入力履歴を呼び出す前に編集していた行 */
+    private draft: string = "";
+    /** 逆方向インクリメンタル検索の状態。検索していない場合は null */
+    private search: { query: string, index: number, failed: boolean, shown: string } | null = null;
+
+    /** 補完候補の一覧を表示した後に再表示するプロンプト */
+    private prompt: string;
+    /** 補完関数 */
+    private complete: ((line: string) => Completion) | null;
+    /** 直前の入力が Tab であったかどうか */
+    private tabPressed: boolean = false;
+    /** 端末の幅 (半角を単位とする) */
+    private columns: number;
+    /** 空の行でファイル終端を表す文字 (端末の VEOF) */
+    private eofChar: string;
 
-    public constructor() {
+    /**
+     * @param options 読み込みのオプション
+     * @param columns 端末の幅 (半角を単位とする)
+     * @param eofChar 空の行でファイル終端を表す文字 (端末の VEOF)
+     */
+    public constructor(options: ReadOptions = {}, columns: number = 80, eofChar: string = "\x04") {
         this.buffer = {
             forward: "",
             backward: ""
         };
         this.hasEnded = false;
+        this.history = options.history ?? [];
+        this.historyIndex = this.history.length;
+        this.prompt = options.prompt ?? "";
+        this.complete = options.complete ?? null;
+        this.columns = columns;
+        this.eofChar = eofChar;
     }
 
     process(value: ArrayBuffer): string {
@@ -571,21 +1784,136 @@ export class ReadInstance {
         const bell = (char: string = "\x07"): void => {
             if (!response.includes(char)) response += char;
         };
-        const getLength = (str: string): number => {
-            // TODO: 2バイト文字対応
-            return str.length;
-        }
+        /** 文字列を表示した際の幅を取得します。全角文字は 2 として数えます。 */
+        const getLength = getStringWidth;
+        /** 表示している行を消去し、カーソルを行の先頭に戻します。 */
+        const clearLine = (): void => {
+            const length = getLength(this.search ? this.search.shown : this.buffer.backward);
+            if (length > 0) write(`\x1B[${length}D`);
+            write("\x1B[K");
+            shiftCount = 0;
+        };
+        /** 行を置き換えて表示し、カーソルを行末に移動します。 */
+        const replaceLine = (line: string): void => {
+            clearLine();
+            this.buffer = { backward: line, forward: "" };
+            write(line);
+        };
+        /** 逆方向インクリメンタル検索の状態を表示します。 */
+        const showSearch = (): void => {
+            const search = this.search!;
+            const match = this.history[search.index] ?? this.line;
+            clearLine();
+            search.shown = `(${search.failed ? "failed " : ""}reverse-i-search)\`${search.query}': ${match}`;
+            write(search.shown);
+        };
+        /** カーソルより前の start 以降を文字列で置き換えます。 */
+        const replaceBackward = (start: number, text: string): void => {
+            const word = this.buffer.backward.slice(start);
+            if (text.startsWith(word)) {
+                write(text.slice(word.length));
+            } else {
+                if (word !== "") write(`\x1B[${getLength(word)}D`);
+                write(text);
+                shiftCount += Math.max(0, getLength(word) - getLength(text));
+            }
+            this.buffer.backward = this.buffer.backward.slice(0, start) + text;
+        };
+        /** 補完を行います。 */
+        const completeWord = (): void => {
+            const { start, candidates } = this.complete!(this.buffer.backward);
+            const word = this.buffer.backward.slice(start);
+            if (candidates.length === 1) {
+                replaceBackward(start, candidates[0] + (candidates[0].endsWith("/") ? "" : " "));
+                return;
+            }
+
+            // NOTE: 候補に共通する部分まで補完し、それ以上補完できない場合は続けて Tab が入力されたときに候補の一覧を表示する
+            const common = candidates.reduce((prefix, candidate) => {
+                while (!candidate.startsWith(prefix)) prefix = prefix.replace(/.$/u, "");
+                return prefix;
+            }, candidates[0] ?? "");
+            if (common.length > word.length) {
+                replaceBackward(start, common);
+            } else if (this.tabPressed && candidates.length > 0) {
+                const width = Math.max(...candidates.map(getLength)) + 2;
+                const perLine = Math.max(1, Math.floor(this.columns / width));
+                const rows = Math.ceil(candidates.length / perLine);
+                const lines = [...Array(rows)].map((_, row) =>
+                    candidates.filter((_, i) => i % rows === row).map(c => c + " ".repeat(width - getLength(c))).join("").trimEnd()
+                );
+
+                write(this.buffer.forward + "\n" + lines.join("\n") + "\n" + this.prompt + this.buffer.backward);
+                shiftCount = 0;
+            } else {
+                bell();
+            }
+        };
+        /**
+         * 入力履歴から、文字列を含む行を指定した位置から古い方へ探します。
+         * @returns 見つかった位置、見つからない場合は -1
+         */
+        const findHistory = (query: string, from: number): number => {
+            for (let i = Math.min(from, this.history.length - 1); i >= 0; i--) {
+                if (this.history[i].includes(query)) return i;
+            }
+            return -1;
+        };
 
         while (chars.length !== 0) {
+            if (this.search) {
+                // NOTE: 逆方向インクリメンタル検索中は、検索文字列の編集以外の入力で検索結果を確定し、その入力を通常どおり処理する
+                const search = this.search;
+                const char = chars.shift()!;
+                if (char === "\x12") {
+                    const index = findHistory(search.query, search.index - 1);
+                    if (index === -1) {
+                        bell();
+                    } else {
+                        search.index = index;
+                    }
+                    showSearch();
+                } else if (char === "\x7F" || char === "\x08") {
+                    search.query = splitGraphemes(search.query).slice(0, -1).join("");
+                    const index = search.query === "" ? -1 : findHistory(search.query, this.history.length - 1);
+                    search.index = index === -1 ? this.history.length : index;
+                    search.failed = false;
+                    showSearch();
+                } else if (char === "\x07") {
+                    clearLine();
+                    this.search = null;
+                    write(this.buffer.backward);
+                } else if (char === "\x1B" || char === "\n" || char.charCodeAt(0) < 0x20) {
+                    const match = this.history[search.index] ?? this.line;
+                    clearLine();
+                    this.search = null;
+                    this.buffer = { backward: match, forward: "" };
+                    write(match);
+                    chars.unshift(char);
+                } else {
+                    search.query += char;
+                    const index = findHistory(search.query, search.index);
+                    if (index === -1) {
+                        search.failed = true;
+                        bell();
+                    } else {
+                        search.index = index;
+                    }
+                    showSearch();
+                }
+                continue;
+            }
+
             const read = (push: boolean = true): string | undefined => {
                 const char = chars.shift();
                 if (char === "\x7F" || char === "\x08") {
                     if (this.buffer.backward.length === 0) {
                         bell();
                     } else {
-                        // NOTE: サロゲートペアを正しく処理できないので、Unicode オプションを使用した正規表現を用いてバッファの処理を行う
-                        const removingChar = this.buffer.backward.match(/(.)$/u)![0];
-                        this.buffer.backward = this.buffer.backward.replace(/.$/u, "");
+                        // NOTE: 結合文字や絵文字の修飾子をまとめて消去できるよう、書記素クラスタ単位でバッファの処理を行う
+                        const graphemes = splitGraphemes(this.buffer.backward);
+                        const removingChar = graphemes.pop()!;
+                        this.buffer.backward = graphemes.join("");
 
                         const length = getLength(removingChar);
                         shiftCount += length;
@@ -608,16 +1936,32 @@ export class ReadInstance {
                             }
                         }
 
-                        if (command === "A" || command === "B") {
-                            // TODO: A: Up, B: Down
+                        if (command === "A") {
+                            // NOTE: Up
+                            if (this.historyIndex === 0) {
+                                bell();
+                            } else {
+                                if (this.historyIndex === this.history.length) this.draft = this.line;
+                                this.historyIndex--;
+                                replaceLine(this.history[this.historyIndex]);
+                            }
+                        } else if (command === "B") {
+                            // NOTE: Down
+                            if (this.historyIndex === this.history.length) {
+                                bell();
+                            } else {
+                                this.historyIndex++;
+                                replaceLine(this.history[this.historyIndex] ?? this.draft);
+                            }
                         } else if (command === "C") {
                             // NOTE: Right
                             if (this.buffer.forward.length === 0) {
                                 bell();
                             } else {
-                                const movingChar = this.buffer.forward.match(/^(.)/u)![0];
+                                const graphemes = splitGraphemes(this.buffer.forward);
+                                const movingChar = graphemes.shift()!;
                                 this.buffer.backward += movingChar;
-                                this.buffer.forward = this.buffer.forward.replace(/^./u, "");
+                                this.buffer.forward = graphemes.join("");
                                 write("\x1B[" + getLength(movingChar) + command);
                             }
                         } else if (command === "D") {
@@ -625,9 +1969,10 @@ export class ReadInstance {
                             if (this.buffer.backward.length === 0) {
                                 bell();
                             } else {
-                                const movingChar = this.buffer.backward.match(/(.)$/u)![0];
+                                const graphemes = splitGraphemes(this.buffer.backward);
+                                const movingChar = graphemes.pop()!;
                                 this.buffer.forward = movingChar + this.buffer.forward;
-                                this.buffer.backward = this.buffer.backward.replace(/.$/u, "");
+                                this.buffer.backward = graphemes.join("");
                                 write("\x1B[" + getLength(movingChar) + command);
                             }
                         } else if (command === "H") {
@@ -654,6 +1999,24 @@ export class ReadInstance {
                             console.log(command, args);
                         }
                     }
+                } else if (char === this.eofChar && this.line === "") {
+                    this.eof = true;
+                    this.hasEnded = true;
+                } else if (char === "\x04") {
+                    // NOTE: Ctrl-D はカーソル位置の文字を削除する。VEOF が変更された場合、空の行では何もしない
+                    if (this.buffer.forward.length === 0) {
+                        bell();
+                    } else {
+                        const graphemes = splitGraphemes(this.buffer.forward);
+                        shiftCount += getLength(graphemes.shift()!);
+                        this.buffer.forward = graphemes.join("");
+                    }
+                } else if (char === "\t" && this.complete) {
+                    completeWord();
+                } else if (char === "\x12") {
+                    // NOTE: Ctrl-R
+                    this.search = { query: "", index: this.history.length, failed: false, shown: this.buffer.backward };
+                    showSearch();
                 } else if (char === "\n") {
                     // TODO: [改行][バックスペースキー] のパターンも存在する
                     this.hasEnded = true;
@@ -662,14 +2025,20 @@ export class ReadInstance {
                     if (push) this.buffer.backward += char;
                     if (char && push) write(char);
                 }
+                if (push) this.tabPressed = char === "\t";
                 return char;
             };
             read();
             // console.log(this.buffer.backward + "|" + this.buffer.forward);
-            if (this.hasEnded) break;
+            if (this.hasEnded) {
+                this.rest = chars.join("");
+                break;
+            }
         }
 
-        return response + (this.buffer.forward.length + shiftCount > 0 ? this.buffer.forward + " ".repeat(shiftCount) + `\x1B[${this.buffer.forward.length + shiftCount}D` : "");
+        if (this.search) return response;
+        const forwardLength = getLength(this.buffer.forward);
+        return response + (forwardLength + shiftCount > 0 ? this.buffer.forward + " ".repeat(shiftCount) + `\x1B[${forwardLength + shiftCount}D` : "");
     }
 
     public get line(): string {
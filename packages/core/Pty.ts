@@ -0,0 +1,123 @@
+import { Emulator } from "./Emulator";
+import { EIO } from "./Error";
+import { DeviceFile, VirtualDirectory } from "./File";
+import { FileSystemDriver } from "./FileSystem";
+import { createTtyDevice, LineDiscipline, TtyDevice } from "./Tty";
+import { concatArrayBuffer } from "./Utils";
+
+/**
+ * 疑似端末のマスターを作成するためのデバイス。
+ * このデバイスを開くと新しい疑似端末が作成され、ファイルディスクリプタはそのマスター側を参照します。
+ */
+export const ptmx: DeviceFile = {
+    name: "ptmx",
+    type: "device",
+    owner: 0,
+    group: 0,
+    mode: 0o666,
+    deleted: false,
+    read: () => { throw new EIO(); },
+    write: () => { throw new EIO(); }
+};
+
+/**
+ * マスター側とスレーブ側の組からなる疑似端末。
+ * マスター側への書き込みはスレーブ側の端末への入力となり、スレーブ側の端末への出力はマスター側から読み込めます。
+ */
+export class Pty {
+    /** 疑似端末の番号 */
+    public readonly id: number;
+
+    /** マスター側を参照しているファイルディスクリプタの数 */
+    public masters: number = 0;
+
+    /** スレーブ側の端末デバイス */
+    public readonly slave: TtyDevice;
+
+    /** マスター側から読み込まれていない出力 */
+    private buffer: ArrayBuffer = new ArrayBuffer(0);
+
+    /** 出力の到着を待っている読み込み処理 */
+    private waiting: (() => void)[] = [];
+
+    /** 入力を UTF-8 の文字の途中で分割されても復号できるようにするためのデコーダー */
+    private decoder: TextDecoder = new TextDecoder();
+
+    /**
+     * @param id 疑似端末の番号
+     * @param owner スレーブ側の所有者
+     * @param group スレーブ側の所有グループ
+     */
+    public constructor(id: number, owner: number, group: number) {
+        this.id = id;
+
+        const discipline = new LineDiscipline(data => {
+            this.buffer = concatArrayBuffer(this.buffer, new TextEncoder().encode(data).buffer);
+            this.notify();
+        });
+        this.slave = createTtyDevice(id.toString(), discipline, owner, group, 0o620);
+    }
+
+    /** スレーブ側のパス名 */
+    public get name(): string {
+        return `/dev/pts/${this.id}`;
+    }
+
+    /**
+     * マスター側から読み込みます。スレーブ側の端末に出力されるまで待機します。
+     * @param count 読み込む最大サイズ
+     * @param signal 待機を中断するためのシグナル
+     */
+    public async read(count: number = Infinity, signal?: AbortSignal): Promise<ArrayBuffer> {
+        while (this.buffer.byteLength === 0) {
+            await new Promise<void>((resolve, reject) => {
+                const onAbort = () => {
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    reject(signal!.reason);
+                };
+                const wake = () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                };
+
+                if (signal?.aborted) return reject(signal.reason);
+                signal?.addEventListener("abort", onAbort, { once: true });
+                this.waiting.push(wake);
+            });
+        }
+
+        const data = this.buffer.slice(0, count);
+        this.buffer = this.buffer.slice(data.byteLength);
+        return data;
+    }
+
+    /**
+     * マスター側に書き込みます。書き込んだデータはスレーブ側の端末への入力になります。
+     * @param buf 書き込むバッファ
+     */
+    public write(buf: ArrayBuffer): void {
+        this.slave.discipline.receive(this.decoder.decode(buf, { stream: true }));
+    }
+
+    /** 出力の到着を待機中の読み込み処理に通知します。 */
+    private notify(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(r => r());
+    }
+}
+
+/** 疑似端末のスレーブ側と ptmx を提供する devpts のドライバ */
+export const devpts: FileSystemDriver = {
+    type: "devpts",
+    mount: (_, emulator: Emulator): VirtualDirectory => ({
+        name: "pts",
+        type: "directory",
+        owner: 0,
+        group: 0,
+        mode: 0o755,
+        deleted: false,
+        children: [],
+        generate: () => [ptmx, ...emulator.ptys.map(p => p.slave)]
+    })
+};
@@ -0,0 +1,228 @@
+import { EINVAL, ENOEXEC, OSError } from "./Error";
+import { ProgramLibrary, ReadOptions } from "./File";
+import { Process } from "./Process";
+
+/** サンドボックスで実行するモジュールであることを示す、ファイルの先頭行 */
+export const SANDBOX_MARKER = "#!kotonejs";
+
+/**
+ * サンドボックス内のプログラムから呼び出せるシステムコールの一覧。
+ * spawn や signal のように関数を受け取るものは、サンドボックスとの間で受け渡せないため含まれません。
+ */
+const SANDBOX_SYSCALLS = [
+    "open", "close", "dup", "dup2", "seek", "read", "write", "stat", "lstat", "fstat",
+    "unlink", "mkdir", "readdir", "rmdir", "pipe", "symlink", "chown", "chmod", "fchmod",
+    "truncate", "ftruncate", "utimes", "readlink", "link", "rename", "access",
+    "getuid", "getgid", "geteuid", "getegid", "getgroups", "setuid", "setgid",
+    "uname", "kill", "sleep", "getpid", "getppid", "getpgrp", "setpgid", "setsid", "tcgetpgrp", "tcsetpgrp", "tcgetattr", "tcsetattr", "tcgetwinsize", "tcsetwinsize", "ptsname",
+    "exit", "wait", "waitpid", "exec"
+] as const;
+
+/** サンドボックスとの間でやり取りするメッセージ */
+type SandboxMessage =
+    | { type: "start", source: string, process: { id: number, name: string, args: string[], env: Record<string, string> }, syscalls: readonly string[] }
+    | { type: "call", id: number, name: string, args: unknown[] }
+    | { type: "result", id: number, result?: unknown, error?: { name: string, message: string } }
+    | { type: "exit", status: unknown }
+    | { type: "error", name: string, message: string };
+
+/** ホストから隔離された環境でスクリプトを実行するワーカー */
+export interface SandboxWorker {
+    /** ワーカーにメッセージを送信します。 */
+    postMessage(message: unknown): void;
+
+    /** ワーカーからメッセージを受信した際に呼び出される関数を設定します。 */
+    onMessage(listener: (message: unknown) => void): void;
+
+    /** ワーカーを終了させます。 */
+    terminate(): void;
+}
+
+/**
+ * ブートストラップスクリプトを実行するワーカーを作成する関数。
+ * ブートストラップスクリプトは ES モジュールとして、ホストのグローバルオブジェクトにアクセスできない環境で実行される必要があります。
+ */
+export type SandboxFactory = (bootstrap: string) => SandboxWorker;
+
+/**
+ * ワーカー内で実行されるブートストラップスクリプト。
+ * 通信手段を確保した後にネットワークなどへのアクセス手段を取り除き、ユーザーのモジュールを読み込んで既定のエクスポートを呼び出します。
+ * システムコールはメッセージでホストに中継されるため、すべて Promise を返します。
+ * 関数はホストに受け渡せないため、lib.io.read の補完関数は使用できません。
+ *
+ * 動的な import() は構文であるため取り除けず、ワーカーに適用される CSP が許可する URL からはモジュールを読み込めます。
+ * Blob URL のワーカーはページの CSP を引き継ぐため、これを防ぐにはページを `script-src 'self' blob:` などの CSP で配信してください。
+ * また、タイマー・crypto・WebAssembly などのネットワークやページに関係しない API は取り除かれません。
+ */
+const BOOTSTRAP = `
+const post = self.postMessage.bind(self);
+const pending = new Map();
+let nextId = 0;
+const call = (name, args) => new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    post({ type: "call", id, name, args });
+});
+
+self.addEventListener("message", async ({ data }) => {
+    if (data.type === "result") {
+        const { resolve, reject } = pending.get(data.id);
+        pending.delete(data.id);
+        if (data.error) {
+            const error = new Error(data.error.message);
+            error.name = data.error.name;
+            reject(error);
+        } else {
+            resolve(data.result);
+        }
+    } else if (data.type === "start") {
+        const blocked = ["fetch", "XMLHttpRequest", "WebSocket", "WebSocketStream", "WebTransport", "EventSource", "importScripts", "indexedDB", "caches", "BroadcastChannel", "Worker", "SharedWorker", "navigator", "location", "postMessage", "close"];
+
+        // NOTE: self だけでなくプロトタイプチェーン上の定義も取り除き、WorkerGlobalScope.prototype.fetch.call(self) などで呼び出せないようにする
+        for (let target = Object.getPrototypeOf(self); target !== null; target = Object.getPrototypeOf(target)) {
+            for (const name of blocked) {
+                if (!Object.prototype.hasOwnProperty.call(target, name)) continue;
+                try {
+                    delete target[name];
+                } catch {}
+                try {
+                    if (Object.prototype.hasOwnProperty.call(target, name)) Object.defineProperty(target, name, { value: undefined, configurable: false, writable: false });
+                } catch {}
+            }
+        }
+        for (const name of blocked) {
+            try {
+                delete self[name];
+            } catch {}
+            try {
+                Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+            } catch {}
+        }
+
+        const process = Object.freeze({
+            ...data.process,
+            ...Object.fromEntries(data.syscalls.map(name => [name, (...args) => call(name, args)]))
+        });
+        const lib = Object.freeze({
+            io: Object.freeze({
+                read: (fd, options) => call("lib.io.read", [fd, options && { prompt: options.prompt, history: options.history, newline: options.newline }]),
+                write: (val, fd) => call("lib.io.write", [val, fd])
+            }),
+            path: Object.freeze({
+                absolute: pathname => call("lib.path.absolute", [pathname])
+            })
+        });
+
+        try {
+            const url = URL.createObjectURL(new Blob([data.source], { type: "text/javascript" }));
+            const module = await import(url);
+            URL.revokeObjectURL(url);
+            if (typeof module.default !== "function") throw new TypeError("The module does not export a default function");
+            post({ type: "exit", status: await module.default.call(process, lib) });
+        } catch (e) {
+            post({ type: "error", name: e?.name ?? "Error", message: e?.message ?? String(e) });
+        }
+    }
+});
+`;
+
+/**
+ * ブラウザの Web Worker を使用するサンドボックスの作成関数。
+ * Node.js の worker_threads はワーカーから node: モジュールを読み込めてホストから隔離できないため、Node.js 用の作成関数は提供していません。
+ */
+export const createWorkerSandbox: SandboxFactory = bootstrap => {
+    const url = URL.createObjectURL(new Blob([bootstrap], { type: "text/javascript" }));
+    const worker = new Worker(url, { type: "module" });
+    URL.revokeObjectURL(url);
+
+    return {
+        postMessage: message => worker.postMessage(message),
+        onMessage: listener => worker.addEventListener("message", event => listener(event.data)),
+        terminate: () => worker.terminate()
+    };
+};
+
+/**
+ * ファイルの内容がサンドボックスで実行するモジュールであるかどうかを判定します。
+ * @param data ファイルの内容
+ */
+export function isSandboxModule(data: ArrayBuffer): boolean {
+    const head = new TextDecoder().decode(data.slice(0, SANDBOX_MARKER.length + 2));
+    return head.split(/\r?\n/)[0].trimEnd() === SANDBOX_MARKER;
+}
+
+/**
+ * モジュールをサンドボックスで実行します。
+ * モジュールは既定のエクスポートとしてプログラムと同じ形式の関数を持つ必要がありますが、システムコールと lib の関数はすべて Promise を返します。
+ * @param process 実行するプロセス
+ * @param lib プログラムが受け取るライブラリ
+ * @param data モジュールを含むファイルの内容
+ * @param abortSignal 中断された際にワーカーを終了させるための AbortSignal
+ * @param factory サンドボックスの作成関数
+ * @returns 終了ステータス
+ */
+export function runInSandbox(process: Process, lib: ProgramLibrary, data: ArrayBuffer, abortSignal: AbortSignal, factory: SandboxFactory | undefined): Promise<number> {
+    // NOTE: サンドボックスを作成できない環境では、実行形式に対応していないものとして扱う
+    if (!factory) throw new ENOEXEC(process.name);
+
+    // NOTE: 行番号を保つため、先頭行はコメントに置き換える
+    const source = "//" + new TextDecoder().decode(data).slice(2);
+    const worker = factory(BOOTSTRAP);
+
+    // NOTE: 引数はサンドボックスから送られてきたものであるため、型を確認してから渡す
+    const isFd = (fd: unknown): fd is number | undefined => fd === undefined || typeof fd === "number";
+    const handlers: Record<string, (...args: unknown[]) => unknown> = {
+        ...Object.fromEntries(SANDBOX_SYSCALLS.map(name => [name, (...args: unknown[]) => (process[name] as (...args: unknown[]) => unknown).apply(process, args)])),
+        "lib.io.read": (fd, options) => {
+            if (!isFd(fd) || (options != null && typeof options !== "object")) throw new EINVAL();
+            return lib.io.read(fd, (options ?? undefined) as ReadOptions | undefined);
+        },
+        "lib.io.write": (val, fd) => {
+            if ((typeof val !== "string" && !(val instanceof Uint8Array)) || !isFd(fd)) throw new EINVAL();
+            return lib.io.write(val, fd);
+        },
+        "lib.path.absolute": pathname => {
+            if (typeof pathname !== "string") throw new EINVAL();
+            return lib.path.absolute(pathname);
+        }
+    };
+
+    return new Promise<number>((resolve, reject) => {
+        const finish = (callback: () => void) => {
+            worker.terminate();
+            callback();
+        };
+        abortSignal.addEventListener("abort", () => finish(() => reject(abortSignal.reason)), { once: true });
+
+        worker.onMessage(async raw => {
+            const message = raw as SandboxMessage;
+            if (message.type === "call") {
+                try {
+                    const handler = Object.hasOwn(handlers, message.name) ? handlers[message.name] : undefined;
+                    if (!handler) throw new EINVAL();
+
+                    worker.postMessage({ type: "result", id: message.id, result: await handler(...message.args) } satisfies SandboxMessage);
+                } catch (e) {
+                    // NOTE: システムコールのエラーはサンドボックスに返し、exit や シグナルによる終了はプロセスに伝える
+                    if (e instanceof OSError) {
+                        worker.postMessage({ type: "result", id: message.id, error: { name: e.name, message: e.message } } satisfies SandboxMessage);
+                    } else {
+                        finish(() => reject(e));
+                    }
+                }
+            } else if (message.type === "exit") {
+                finish(() => resolve(typeof message.status === "number" ? message.status : 0));
+            } else if (message.type === "error") {
+                lib.io.write(`${process.name}: ${message.name}: ${message.message}\n`, 2);
+                finish(() => resolve(1));
+            }
+        });
+
+        worker.postMessage({
+            type: "start",
+            source,
+            process: { id: process.id, name: process.name, args: process.args, env: process.env },
+            syscalls: SANDBOX_SYSCALLS
+        } satisfies SandboxMessage);
+    });
+}
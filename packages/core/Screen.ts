@@ -0,0 +1,423 @@
+import { DEFAULT_TERMINAL_SIZE, Disposable, TerminalBackend, TerminalSize } from "./Terminal";
+import { getGraphemeWidth, splitGraphemes } from "./Utils";
+
+/** 文字色・背景色。null は既定の色、数値は 256 色のパレット番号、文字列は #rrggbb 形式の色を表します。 */
+export type ScreenColor = number | string | null;
+
+/** セルの文字の装飾 */
+export interface CellStyle {
+    /** 文字色 */
+    foreground: ScreenColor;
+    /** 背景色 */
+    background: ScreenColor;
+    /** 太字 */
+    bold: boolean;
+    /** 下線 */
+    underline: boolean;
+    /** 色の反転 */
+    inverse: boolean;
+}
+
+/** 画面の 1 つのセル */
+export interface Cell {
+    /** 表示されている書記素クラスタ。空白は " "、全角文字の右半分は空文字列になります。 */
+    char: string;
+    /** 文字の装飾 */
+    style: CellStyle;
+}
+
+/** 既定の文字の装飾 */
+const DEFAULT_STYLE: Readonly<CellStyle> = { foreground: null, background: null, bold: false, underline: false, inverse: false };
+
+/** 制御シーケンス (CSI) */
+const CSI_PATTERN = /\x1b\[([?>=]?)([\d;:]*)[ -/]*([@-~])/y;
+/** OS コマンド (OSC)。ウィンドウタイトルの設定などは無視します。 */
+const OSC_PATTERN = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/y;
+
+/**
+ * ANSI エスケープシーケンスを解釈し、出力をセルの二次元配列として保持するヘッドレスな端末。
+ * ホストの端末として接続すると、利用者に表示される画面をプログラムから検査できます。
+ * カーソル移動・画面と行の消去・SGR による文字の装飾・自動改行・スクロールに対応しています。
+ */
+export class VirtualScreen implements TerminalBackend {
+    /** カーソルの位置 (0 から数える) */
+    public cursor: { row: number, column: number } = { row: 0, column: 0 };
+
+    /** ベルが鳴らされた回数 */
+    public bells: number = 0;
+
+    /** スクロールによって画面の上端から押し出された行 (古いものから順) */
+    public scrollback: string[] = [];
+
+    /** 画面のセル (行ごと) */
+    private cells: Cell[][] = [];
+
+    /** ウィンドウサイズ */
+    private currentSize: TerminalSize;
+
+    /** 現在の文字の装飾 */
+    private style: CellStyle = { ...DEFAULT_STYLE };
+
+    /** 右端に文字を書き込み、次の文字で改行する状態かどうか */
+    private pendingWrap: boolean = false;
+
+    /** ESC 7 で保存されたカーソルの位置 */
+    private savedCursor: { row: number, column: number } = { row: 0, column: 0 };
+
+    /** 途中で分割された、解釈していないエスケープシーケンス */
+    private pending: string = "";
+
+    /** 入力を受け取る関数 */
+    private dataListeners: ((data: string) => void)[] = [];
+    /** ウィンドウサイズの変更を受け取る関数 */
+    private resizeListeners: ((size: TerminalSize) => void)[] = [];
+
+    /**
+     * @param size ウィンドウサイズ
+     */
+    public constructor(size: TerminalSize = DEFAULT_TERMINAL_SIZE) {
+        this.currentSize = { ...size };
+        this.cells = [...Array(size.rows)].map(() => this.blankRow());
+    }
+
+    /** 現在のウィンドウサイズ */
+    public get size(): TerminalSize {
+        return { ...this.currentSize };
+    }
+
+    /**
+     * 出力を解釈して画面に反映します。
+     * @param data 出力された文字列
+     */
+    public write(data: string): void {
+        data = this.pending + data;
+        this.pending = "";
+
+        let text = "";
+        for (let i = 0; i < data.length;) {
+            const char = data[i];
+            if (char.charCodeAt(0) >= 0x20 && char !== "\x7f") {
+                text += char;
+                i++;
+                continue;
+            }
+
+            this.print(text);
+            text = "";
+            if (char === "\x1b") {
+                const length = this.escape(data, i);
+                if (length === null) {
+                    // NOTE: 続きが後の出力で届くエスケープシーケンスは、次の書き込みまで保留する
+                    this.pending = data.slice(i);
+                    break;
+                }
+                i += length;
+            } else {
+                this.control(char);
+                i++;
+            }
+        }
+        this.print(text);
+    }
+
+    /** 端末への入力を受け取る関数を登録します。 */
+    public onData(listener: (data: string) => void): Disposable {
+        this.dataListeners.push(listener);
+        return { dispose: () => { this.dataListeners = this.dataListeners.filter(l => l !== listener); } };
+    }
+
+    /** ウィンドウサイズの変更を受け取る関数を登録します。 */
+    public onResize(listener: (size: TerminalSize) => void): Disposable {
+        this.resizeListeners.push(listener);
+        return { dispose: () => { this.resizeListeners = this.resizeListeners.filter(l => l !== listener); } };
+    }
+
+    /** ベルを鳴らします。 */
+    public bell(): void {
+        this.bells++;
+    }
+
+    /**
+     * 端末に入力します。
+     * @param data 入力する文字列
+     */
+    public input(data: string): void {
+        [...this.dataListeners].forEach(l => l(data));
+    }
+
+    /**
+     * ウィンドウサイズを変更します。はみ出したセルは失われます。
+     * @param size 新しいウィンドウサイズ
+     */
+    public resize(size: TerminalSize): void {
+        this.cells = [...Array(size.rows)].map((_, row) =>
+            [...Array(size.columns)].map((_, column) => this.cells[row]?.[column] ?? this.blankCell())
+        );
+        this.currentSize = { ...size };
+        this.cursor = { row: Math.min(this.cursor.row, size.rows - 1), column: Math.min(this.cursor.column, size.columns - 1) };
+        this.pendingWrap = false;
+        [...this.resizeListeners].forEach(l => l({ ...this.currentSize }));
+    }
+
+    /**
+     * セルを取得します。
+     * @param row 行 (0 から数える)
+     * @param column 列 (0 から数える)
+     */
+    public getCell(row: number, column: number): Cell | undefined {
+        const cell = this.cells[row]?.[column];
+        return cell && { char: cell.char, style: { ...cell.style } };
+    }
+
+    /**
+     * 行に表示されている文字列を取得します。末尾の空白は取り除かれます。
+     * @param row 行 (0 から数える)
+     */
+    public getLine(row: number): string {
+        return (this.cells[row] ?? []).map(c => c.char).join("").trimEnd();
+    }
+
+    /** 画面に表示されている文字列を、行ごとに改行で区切って取得します。末尾の空行は取り除かれます。 */
+    public screenshot(): string {
+        return this.cells.map((_, row) => this.getLine(row)).join("\n").replace(/\n+$/, "");
+    }
+
+    /**
+     * 表示可能な文字列を画面に書き込みます。
+     * @param text 制御文字を含まない文字列
+     */
+    private print(text: string): void {
+        const { columns } = this.currentSize;
+        for (const grapheme of splitGraphemes(text)) {
+            const width = getGraphemeWidth(grapheme);
+            if (width === 0) {
+                // NOTE: 結合文字などは直前のセルの文字に結合する。全角文字の場合は左半分のセルに結合する
+                const row = this.cells[this.cursor.row];
+                let column = this.pendingWrap ? this.cursor.column : this.cursor.column - 1;
+                if (row[column]?.char === "") column--;
+                if (column >= 0) row[column].char += grapheme;
+                continue;
+            }
+
+            if (this.pendingWrap || this.cursor.column + width > columns) {
+                // NOTE: 右端に収まらない全角文字は、右端を空白にして次の行に書き込む
+                if (!this.pendingWrap) this.cells[this.cursor.row][this.cursor.column] = this.blankCell();
+                this.cursor.column = 0;
+                this.lineFeed();
+                this.pendingWrap = false;
+            }
+
+            const row = this.cells[this.cursor.row];
+            row[this.cursor.column] = { char: grapheme, style: { ...this.style } };
+            if (width === 2) row[this.cursor.column + 1] = { char: "", style: { ...this.style } };
+
+            if (this.cursor.column + width >= columns) {
+                this.cursor.column = columns - 1;
+                this.pendingWrap = true;
+            } else {
+                this.cursor.column += width;
+            }
+        }
+    }
+
+    /**
+     * 制御文字を処理します。
+     * @param char 制御文字
+     */
+    private control(char: string): void {
+        if (char === "\r") {
+            this.cursor.column = 0;
+        } else if (char === "\n" || char === "\x0b" || char === "\x0c") {
+            this.lineFeed();
+        } else if (char === "\b") {
+            this.cursor.column = Math.max(0, this.cursor.column - 1);
+        } else if (char === "\t") {
+            this.cursor.column = Math.min(this.currentSize.columns - 1, (Math.floor(this.cursor.column / 8) + 1) * 8);
+        } else if (char === "\x07") {
+            this.bell();
+        } else {
+            return;
+        }
+        this.pendingWrap = false;
+    }
+
+    /**
+     * エスケープシーケンスを処理します。
+     * @param data 出力
+     * @param index エスケープ文字の位置
+     * @returns 処理したシーケンスの長さ。シーケンスが途中までしか届いていない場合は null
+     */
+    private escape(data: string, index: number): number | null {
+        const next = data[index + 1];
+        if (next === undefined) return null;
+
+        if (next === "[") {
+            CSI_PATTERN.lastIndex = index;
+            const match = CSI_PATTERN.exec(data);
+            if (!match) {
+                // NOTE: 終端文字が届いていない場合のみ保留し、不正なシーケンスは読み捨てる
+                return /^\x1b\[[?>=]?[\d;:]*[ -/]*$/.test(data.slice(index)) ? null : 2;
+            }
+
+            const [sequence, prefix, params, command] = match;
+            if (prefix === "") this.csi(command, params.split(/[;:]/).map(p => p === "" ? null : parseInt(p)));
+            return sequence.length;
+        } else if (next === "]") {
+            OSC_PATTERN.lastIndex = index;
+            const match = OSC_PATTERN.exec(data);
+            if (match) return match[0].length;
+            return /\x07|\x1b/.test(data.slice(index + 2)) ? 2 : null;
+        }
+
+        if (next === "7") {
+            this.savedCursor = { ...this.cursor };
+        } else if (next === "8") {
+            this.cursor = { ...this.savedCursor };
+            this.pendingWrap = false;
+        } else if (next === "c") {
+            this.reset();
+        } else if (next === "D") {
+            this.lineFeed();
+        } else if (next === "M") {
+            this.cursor.row = Math.max(0, this.cursor.row - 1);
+        } else if (next === "(" || next === ")") {
+            // NOTE: 文字集合の指定は無視する
+            return data[index + 2] === undefined ? null : 3;
+        }
+        return 2;
+    }
+
+    /**
+     * 制御シーケンス (CSI) を処理します。
+     * @param command 終端文字
+     * @param params 引数。省略された引数は null
+     */
+    private csi(command: string, params: (number | null)[]): void {
+        const { rows, columns } = this.currentSize;
+        const amount = Math.max(1, params[0] ?? 1);
+        const cursor = this.cursor;
+        const clampRow = (row: number) => Math.min(rows - 1, Math.max(0, row));
+        const clampColumn = (column: number) => Math.min(columns - 1, Math.max(0, column));
+
+        if (command !== "m") this.pendingWrap = false;
+        switch (command) {
+            case "A": cursor.row = clampRow(cursor.row - amount); break;
+            case "B": cursor.row = clampRow(cursor.row + amount); break;
+            case "C": cursor.column = clampColumn(cursor.column + amount); break;
+            case "D": cursor.column = clampColumn(cursor.column - amount); break;
+            case "E": cursor.row = clampRow(cursor.row + amount); cursor.column = 0; break;
+            case "F": cursor.row = clampRow(cursor.row - amount); cursor.column = 0; break;
+            case "G": cursor.column = clampColumn(amount - 1); break;
+            case "d": cursor.row = clampRow(amount - 1); break;
+            case "H":
+            case "f":
+                cursor.row = clampRow((params[0] ?? 1) - 1);
+                cursor.column = clampColumn((params[1] ?? 1) - 1);
+                break;
+            case "J": this.eraseDisplay(params[0] ?? 0); break;
+            case "K": this.eraseLine(params[0] ?? 0); break;
+            case "m": this.setStyle(params); break;
+        }
+    }
+
+    /**
+     * 画面を消去します。
+     * @param mode 0 はカーソルから末尾まで、1 は先頭からカーソルまで、2 は画面全体、3 は画面全体とスクロールバック
+     */
+    private eraseDisplay(mode: number): void {
+        const { row } = this.cursor;
+        if (mode === 0) {
+            this.eraseLine(0);
+            for (let r = row + 1; r < this.cells.length; r++) this.cells[r] = this.blankRow();
+        } else if (mode === 1) {
+            this.eraseLine(1);
+            for (let r = 0; r < row; r++) this.cells[r] = this.blankRow();
+        } else if (mode === 2 || mode === 3) {
+            this.cells = this.cells.map(() => this.blankRow());
+            if (mode === 3) this.scrollback = [];
+        }
+    }
+
+    /**
+     * カーソルのある行を消去します。
+     * @param mode 0 はカーソルから行末まで、1 は行頭からカーソルまで、2 は行全体
+     */
+    private eraseLine(mode: number): void {
+        const { row, column } = this.cursor;
+        const [start, end] = mode === 0 ? [column, this.currentSize.columns] : mode === 1 ? [0, column + 1] : [0, this.currentSize.columns];
+        for (let c = start; c < end; c++) this.cells[row][c] = this.blankCell();
+    }
+
+    /**
+     * SGR (Select Graphic Rendition) に従って文字の装飾を変更します。
+     * @param params 引数
+     */
+    private setStyle(params: (number | null)[]): void {
+        for (let i = 0; i < params.length; i++) {
+            const param = params[i] ?? 0;
+            if (param === 0) {
+                this.style = { ...DEFAULT_STYLE };
+            } else if (param === 1) {
+                this.style.bold = true;
+            } else if (param === 4) {
+                this.style.underline = true;
+            } else if (param === 7) {
+                this.style.inverse = true;
+            } else if (param === 22) {
+                this.style.bold = false;
+            } else if (param === 24) {
+                this.style.underline = false;
+            } else if (param === 27) {
+                this.style.inverse = false;
+            } else if (30 <= param && param <= 37 || 90 <= param && param <= 97) {
+                this.style.foreground = param >= 90 ? param - 90 + 8 : param - 30;
+            } else if (40 <= param && param <= 47 || 100 <= param && param <= 107) {
+                this.style.background = param >= 100 ? param - 100 + 8 : param - 40;
+            } else if (param === 39) {
+                this.style.foreground = null;
+            } else if (param === 49) {
+                this.style.background = null;
+            } else if (param === 38 || param === 48) {
+                // NOTE: 38;5;n は 256 色、38;2;r;g;b は RGB で色を指定する
+                const key = param === 38 ? "foreground" : "background";
+                if (params[i + 1] === 5) {
+                    this.style[key] = params[i + 2] ?? 0;
+                    i += 2;
+                } else if (params[i + 1] === 2) {
+                    this.style[key] = "#" + params.slice(i + 2, i + 5).map(v => (v ?? 0).toString(16).padStart(2, "0")).join("");
+                    i += 4;
+                }
+            }
+        }
+    }
+
+    /** カーソルを次の行に移動します。最下行の場合は画面をスクロールします。 */
+    private lineFeed(): void {
+        if (this.cursor.row < this.currentSize.rows - 1) {
+            this.cursor.row++;
+            return;
+        }
+
+        const line = this.cells.shift()!;
+        this.scrollback.push(line.map(c => c.char).join("").trimEnd());
+        this.cells.push(this.blankRow());
+    }
+
+    /** 画面・カーソル・文字の装飾を初期状態に戻します。 */
+    private reset(): void {
+        this.cells = this.cells.map(() => this.blankRow());
+        this.cursor = { row: 0, column: 0 };
+        this.style = { ...DEFAULT_STYLE };
+        this.pendingWrap = false;
+    }
+
+    /** 空白のセルを作成します。 */
+    private blankCell(): Cell {
+        return { char: " ", style: { ...DEFAULT_STYLE } };
+    }
+
+    /** 空白の行を作成します。 */
+    private blankRow(): Cell[] {
+        return [...Array(this.currentSize.columns)].map(() => this.blankCell());
+    }
+}
@@ -0,0 +1,189 @@
+import { Emulator } from "./Emulator";
+import { ExpectError } from "./Error";
+import { Pty } from "./Pty";
+
+/** ホストからコマンドやセッションを開始する際のオプション */
+export interface CommandOptions {
+    /** 実行するユーザー ID。既定値は 0 (root) です。 */
+    uid?: number;
+
+    /** 実行するグループ ID。省略した場合は /etc/passwd に記載されたユーザーのグループ、記載がない場合はユーザー ID と同じ値になります。 */
+    gid?: number;
+
+    /** 作業ディレクトリ。省略した場合はユーザーのホームディレクトリになります。 */
+    cwd?: string;
+
+    /** 追加する環境変数。HOME・USER・PATH などの既定の環境変数を上書きします。 */
+    env?: Record<string, string>;
+
+    /** 使用するシェル。省略した場合は /etc/passwd に記載されたユーザーのシェル、記載がない場合は /bin/sh になります。 */
+    shell?: string;
+}
+
+/** Emulator.runCommand のオプション */
+export interface RunCommandOptions extends CommandOptions {
+    /** 標準入力に与える文字列。省略した場合、標準入力は空になります。 */
+    stdin?: string;
+}
+
+/** Emulator.runCommand の実行結果 */
+export interface CommandResult {
+    /** 標準出力に書き込まれた文字列 */
+    stdout: string;
+
+    /** 標準エラー出力に書き込まれた文字列 */
+    stderr: string;
+
+    /** 終了ステータス。シグナルによって終了した場合は 128 + シグナル番号になります。 */
+    exitCode: number;
+}
+
+/** Session.expect の結果 */
+export interface ExpectResult {
+    /** パターンに一致した文字列 */
+    match: string;
+
+    /** 正規表現のキャプチャグループ */
+    groups: (string | undefined)[];
+
+    /** 前回の一致から、今回一致した文字列の直前までの出力 */
+    before: string;
+}
+
+/** Session.expect の既定のタイムアウト (ミリ秒) */
+export const DEFAULT_EXPECT_TIMEOUT = 5000;
+
+/**
+ * 疑似端末上で動作する対話的なシェルのセッション。Emulator.openSession で作成します。
+ * 入力を送り、出力が期待したパターンに一致するまで待機することで、ホストから対話的に操作できます。
+ */
+export class Session {
+    /** シェルの終了ステータス。シェルが終了するとセッションは閉じられます。 */
+    public readonly exited: Promise<number>;
+
+    /** セッションが使用している疑似端末 */
+    public readonly pty: Pty;
+
+    private emulator: Emulator;
+
+    /** これまでの出力 */
+    private buffer: string = "";
+
+    /** 次の expect で検索を開始する、出力の中の位置 */
+    private position: number = 0;
+
+    /** セッションが閉じられたかどうか */
+    private closed: boolean = false;
+
+    /** 出力の到着やセッションの終了を待っている expect */
+    private waiting: (() => void)[] = [];
+
+    /** 疑似端末からの読み込みを中断するためのコントローラー */
+    private abortController: AbortController = new AbortController();
+
+    /**
+     * @param emulator エミュレーター
+     * @param pty シェルの制御端末となる疑似端末
+     * @param exited シェルの終了ステータス
+     */
+    public constructor(emulator: Emulator, pty: Pty, exited: Promise<number>) {
+        this.emulator = emulator;
+        this.pty = pty;
+
+        const decoder = new TextDecoder();
+        (async () => {
+            while (true) {
+                this.buffer += decoder.decode(await pty.read(Infinity, this.abortController.signal), { stream: true });
+                this.notify();
+            }
+        })().catch(() => {});
+
+        // NOTE: 疑似端末に残っている出力を読み込んでから閉じる
+        this.exited = exited.then(async status => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            this.close();
+            return status;
+        }, e => {
+            this.close();
+            throw e;
+        });
+
+        // NOTE: exited を待機していない場合に、未処理の拒否として扱われないようにする (待機している呼び出し元には拒否が伝わる)
+        this.exited.catch(() => {});
+    }
+
+    /** これまでの出力 */
+    public get output(): string {
+        return this.buffer;
+    }
+
+    /**
+     * 端末に入力します。改行は自動で追加されません。
+     * @param data 入力する文字列
+     */
+    public write(data: string): void {
+        if (this.closed) return;
+        this.pty.write(new TextEncoder().encode(data).buffer);
+    }
+
+    /**
+     * 前回の一致以降の出力がパターンに一致するまで待機します。
+     * @param pattern 文字列もしくは正規表現
+     * @param timeout タイムアウト (ミリ秒)
+     * @throws {ExpectError} タイムアウトした場合、もしくは一致する前にセッションが閉じられた場合
+     */
+    public async expect(pattern: string | RegExp, timeout: number = DEFAULT_EXPECT_TIMEOUT): Promise<ExpectResult> {
+        const deadline = Date.now() + timeout;
+        while (true) {
+            const rest = this.buffer.slice(this.position);
+            let index = -1;
+            let match: (string | undefined)[] = [];
+            if (typeof pattern === "string") {
+                index = rest.indexOf(pattern);
+                match = [pattern];
+            } else {
+                // NOTE: 検索位置は自身で管理するため、g と y フラグは取り除く
+                const result = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "")).exec(rest);
+                if (result) {
+                    index = result.index;
+                    match = [...result];
+                }
+            }
+            if (index !== -1) {
+                this.position += index + match[0]!.length;
+                return { match: match[0]!, groups: match.slice(1), before: rest.slice(0, index) };
+            }
+
+            if (this.closed) throw new ExpectError(`Session closed while waiting for ${pattern}`, rest);
+            const wait = deadline - Date.now();
+            if (wait <= 0) throw new ExpectError(`Timed out waiting for ${pattern}`, rest);
+
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(() => wake(), wait);
+                const wake = () => {
+                    clearTimeout(timer);
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    resolve();
+                };
+                this.waiting.push(wake);
+            });
+        }
+    }
+
+    /** セッションを閉じます。疑似端末は削除され、シェルには SIGHUP が送信されます。 */
+    public close(): void {
+        if (this.closed) return;
+
+        this.closed = true;
+        this.abortController.abort();
+        this.emulator.removePty(this.pty);
+        this.notify();
+    }
+
+    /** 出力の到着やセッションの終了を、待機中の expect に通知します。 */
+    private notify(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(r => r());
+    }
+}
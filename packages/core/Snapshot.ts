@@ -0,0 +1,211 @@
+import { SnapshotError } from "./Error";
+import { createHardLink, DeviceFile, Directory, ExecutableFile, File, IFile, isDeviceFile, isDirectory, isExecutableFile, isRegularFile, isSymbolicLink, isVirtualDirectory } from "./File";
+import { decodeBase64, encodeBase64, join, PATH_SEPARATOR } from "./Utils";
+
+/** スナップショットの形式のバージョン */
+export const SNAPSHOT_VERSION = 1;
+
+/** シリアライズされたエントリに共通するメタデータ */
+interface SerializedEntry {
+    name: string;
+    owner: number;
+    group: number;
+    mode: number;
+    /** ハードリンクの数。2 以上の場合、同じ inode 番号を持つエントリは復元時に同じファイルへのハードリンクになります。 */
+    nlink?: number;
+    ino?: number;
+    atime?: number;
+    mtime?: number;
+    ctime?: number;
+}
+
+/** シリアライズされたディレクトリ */
+export interface SerializedDirectory extends SerializedEntry {
+    type: "directory";
+    children: SerializedFile[];
+}
+
+/** JSON として保存できる形式に変換されたエントリ。バイナリデータは Base64 で表されます。 */
+export type SerializedFile =
+    | SerializedEntry & { type: "regular-file", data: string }
+    | SerializedEntry & { type: "executable-file", protected: boolean, program?: string, data?: string }
+    | SerializedEntry & { type: "device", device: string }
+    | SerializedEntry & { type: "symlink", target: string }
+    | SerializedDirectory;
+
+/** ファイルシステムのスナップショット */
+export interface Snapshot {
+    /** 形式のバージョン */
+    version: number;
+
+    /** 作成された時刻 (UNIX 時間のミリ秒) */
+    createdAt: number;
+
+    /** ルートディレクトリ */
+    root: SerializedDirectory;
+}
+
+/**
+ * 実行ファイルとデバイスファイルを識別子で参照するための対応表。
+ * これらのファイルは関数を持つため、スナップショットには識別子のみが保存されます。
+ */
+export interface ReferenceTable {
+    /**
+     * エントリの識別子を取得します。
+     * @returns 識別子、対応表に存在しない場合は undefined
+     */
+    identify(entry: ExecutableFile | DeviceFile): string | undefined;
+
+    /**
+     * 識別子から参照先のエントリを取得します。
+     * @returns エントリ、存在しない場合は undefined
+     */
+    resolve(id: string): ExecutableFile | DeviceFile | undefined;
+}
+
+/**
+ * ディレクトリ内の実行ファイルとデバイスファイルを、その絶対パスを識別子として参照する対応表を作成します。
+ * 識別はエントリの持つ関数によって行うため、作成後に移動・リンクされたエントリも同じ識別子になります。
+ * @param root ルートディレクトリ
+ */
+export function createReferenceTable(root: Directory): ReferenceTable {
+    const entries = new Map<string, ExecutableFile | DeviceFile>();
+    const walk = (directory: Directory, pathname: string) => {
+        for (const child of directory.children) {
+            const childPathname = join(pathname, child.name);
+            if (isExecutableFile(child) || isDeviceFile(child)) {
+                entries.set(childPathname, child);
+            } else if (isDirectory(child) && !isVirtualDirectory(child)) {
+                walk(child, childPathname);
+            }
+        }
+    };
+    walk(root, PATH_SEPARATOR);
+
+    return {
+        identify: entry => [...entries].find(([, e]) =>
+            isExecutableFile(entry) ? isExecutableFile(e) && e.onStart === entry.onStart : isDeviceFile(e) && e.read === entry.read
+        )?.[0],
+        resolve: id => entries.get(id)
+    };
+}
+
+/**
+ * ディレクトリのツリーをスナップショットに変換します。
+ * 削除済みのエントリ、仮想ディレクトリ、対応表に存在しない実行ファイルとデバイスファイルは含まれません。
+ * @param root ルートディレクトリ
+ * @param references 実行ファイルとデバイスファイルの対応表
+ */
+export function serialize(root: Directory, references: ReferenceTable): Snapshot {
+    const metadata = (entry: IFile): SerializedEntry => ({
+        name: entry.name,
+        owner: entry.owner,
+        group: entry.group,
+        mode: entry.mode,
+        nlink: entry.nlink,
+        // NOTE: ハードリンクされたエントリには、link システムコールによって必ず inode 番号が割り当てられている
+        ino: entry.ino,
+        atime: entry.atime,
+        mtime: entry.mtime,
+        ctime: entry.ctime
+    });
+
+    const convert = (entry: File): SerializedFile | null => {
+        if (entry.deleted) return null;
+
+        if (isRegularFile(entry)) {
+            return { ...metadata(entry), type: "regular-file", data: encodeBase64(entry.data) };
+        } else if (isExecutableFile(entry)) {
+            // NOTE: プログラム名ヘッダーでプログラムを参照する実行ファイルは内容のみを保存する
+            const program = entry.onStart && references.identify(entry);
+            if (entry.onStart && program === undefined) return null;
+            return { ...metadata(entry), type: "executable-file", protected: entry.protected, program, data: entry.data && encodeBase64(entry.data) };
+        } else if (isDeviceFile(entry)) {
+            const device = references.identify(entry);
+            return device === undefined ? null : { ...metadata(entry), type: "device", device };
+        } else if (isSymbolicLink(entry)) {
+            return { ...metadata(entry), type: "symlink", target: entry.target };
+        } else if (isVirtualDirectory(entry)) {
+            return null;
+        } else {
+            return { ...metadata(entry), type: "directory", children: entry.children.map(convert).filter((c): c is SerializedFile => c !== null) };
+        }
+    };
+
+    return {
+        version: SNAPSHOT_VERSION,
+        createdAt: Date.now(),
+        root: convert(root) as SerializedDirectory
+    };
+}
+
+/**
+ * スナップショットからディレクトリのツリーを復元します。
+ * 対応表に存在しない実行ファイルとデバイスファイルは復元されません。
+ * 復元したエントリは inode 番号を保持するため、エミュレーターで使用する場合は新しく割り当てる inode 番号と重複しないようにしてください。
+ * @param snapshot スナップショット
+ * @param references 実行ファイルとデバイスファイルの対応表
+ */
+export function restore(snapshot: Snapshot, references: ReferenceTable): Directory {
+    if (typeof snapshot !== "object" || snapshot === null || snapshot.root?.type !== "directory") {
+        throw new SnapshotError();
+    }
+    if (snapshot.version > SNAPSHOT_VERSION) {
+        throw new SnapshotError("Unsupported snapshot version: " + snapshot.version);
+    }
+
+    const links = new Map<number, File>();
+
+    const convert = (serialized: SerializedFile): File | null => {
+        const link = (serialized.nlink ?? 1) > 1 ? serialized.ino : undefined;
+        if (link !== undefined) {
+            const linked = links.get(link);
+            if (linked) return createHardLink(linked, serialized.name);
+        }
+
+        const entry = ((): File | null => {
+            const base = {
+                name: serialized.name,
+                owner: serialized.owner,
+                group: serialized.group,
+                mode: serialized.mode,
+                deleted: false,
+                nlink: serialized.nlink,
+                ino: serialized.ino,
+                atime: serialized.atime,
+                mtime: serialized.mtime,
+                ctime: serialized.ctime
+            };
+
+            switch (serialized.type) {
+                case "regular-file":
+                    return { ...base, type: "regular-file", data: decodeBase64(serialized.data) };
+                case "executable-file": {
+                    const data = serialized.data === undefined ? undefined : decodeBase64(serialized.data);
+                    if (serialized.program === undefined) return { ...base, type: "executable-file", protected: serialized.protected, data };
+
+                    const program = references.resolve(serialized.program);
+                    if (!program || !isExecutableFile(program)) return null;
+                    return { ...base, type: "executable-file", protected: serialized.protected, onStart: program.onStart, data };
+                }
+                case "device": {
+                    const device = references.resolve(serialized.device);
+                    if (!device || !isDeviceFile(device)) return null;
+                    // NOTE: デバイスは状態を持つため、複製せずに元のエントリの関数やラインディシプリンなどをすべて共有する
+                    return { ...device, ...base, type: "device" };
+                }
+                case "symlink":
+                    return { ...base, type: "symlink", target: serialized.target };
+                case "directory":
+                    return { ...base, type: "directory", children: serialized.children.map(convert).filter((c): c is File => c !== null) };
+                default:
+                    throw new SnapshotError("Unknown file type: " + (serialized as { type: unknown }).type);
+            }
+        })();
+
+        if (entry && link !== undefined) links.set(link, entry);
+        return entry;
+    };
+
+    return convert(snapshot.root) as Directory;
+}
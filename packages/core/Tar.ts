@@ -0,0 +1,339 @@
+import { ArchiveError, EEXIST, ENOENT } from "./Error";
+import { OpenFlag, StatMode } from "./Flags";
+import { Process } from "./Process";
+import { concatArrayBuffer, dirname, join, PATH_SEPARATOR } from "./Utils";
+
+/** tar アーカイブのブロックサイズ */
+const BLOCK_SIZE = 512;
+
+/** tar アーカイブのエントリ */
+export interface TarEntry {
+    /** アーカイブ内のパス名。ディレクトリの場合も末尾の / は含みません。 */
+    pathname: string;
+
+    /** エントリの種類 */
+    type: "file" | "directory" | "symlink" | "hardlink";
+
+    /** アクセス権限 */
+    mode: number;
+
+    /** 所有者 */
+    owner: number;
+
+    /** 所有グループ */
+    group: number;
+
+    /** 最終修正時刻 (UNIX 時間のミリ秒) */
+    mtime: number;
+
+    /** ファイルの内容。通常ファイルの場合のみ存在します。 */
+    data?: ArrayBuffer;
+
+    /** シンボリックリンクのリンク先、もしくはハードリンクのリンク元のパス名 */
+    target?: string;
+}
+
+/** エントリの種類と ustar の typeflag の対応 */
+const TYPE_FLAGS: Record<TarEntry["type"], string> = {
+    "file": "0",
+    "hardlink": "1",
+    "symlink": "2",
+    "directory": "5"
+};
+
+/**
+ * ustar ヘッダーを作成します。
+ * @param entry エントリ
+ */
+function createHeader(entry: TarEntry): Uint8Array {
+    const header = new Uint8Array(BLOCK_SIZE);
+    const encoder = new TextEncoder();
+
+    const setString = (offset: number, length: number, value: string) => {
+        const bytes = encoder.encode(value);
+        if (bytes.length > length) throw new ArchiveError("Name too long: " + value);
+        header.set(bytes, offset);
+    };
+    // NOTE: 数値フィールドは NUL で終わる 0 埋めの 8 進数で表す
+    const setNumber = (offset: number, length: number, value: number) =>
+        setString(offset, length, Math.floor(value).toString(8).padStart(length - 1, "0"));
+
+    // NOTE: 100 バイトを超えるパス名は、ディレクトリの区切りで prefix と name に分割する
+    let name = entry.type === "directory" ? entry.pathname + PATH_SEPARATOR : entry.pathname;
+    let prefix = "";
+    if (encoder.encode(name).length > 100) {
+        const index = [...name.matchAll(/\//g)].map(m => m.index!).find(i =>
+            encoder.encode(name.slice(0, i)).length <= 155 && encoder.encode(name.slice(i + 1)).length <= 100
+        );
+        if (index === undefined) throw new ArchiveError("Name too long: " + name);
+        [prefix, name] = [name.slice(0, index), name.slice(index + 1)];
+    }
+
+    setString(0, 100, name);
+    setNumber(100, 8, entry.mode & 0o7777);
+    setNumber(108, 8, entry.owner);
+    setNumber(116, 8, entry.group);
+    setNumber(124, 12, entry.type === "file" ? entry.data?.byteLength ?? 0 : 0);
+    setNumber(136, 12, entry.mtime / 1000);
+    setString(156, 1, TYPE_FLAGS[entry.type]);
+    setString(157, 100, entry.target ?? "");
+    setString(257, 6, "ustar");
+    setString(263, 2, "00");
+    setNumber(329, 8, 0);
+    setNumber(337, 8, 0);
+    setString(345, 155, prefix);
+
+    // NOTE: チェックサムは、チェックサムフィールドを空白とみなしたヘッダーの全バイトの和
+    header.fill(0x20, 148, 156);
+    setString(148, 8, header.reduce((a, b) => a + b, 0).toString(8).padStart(6, "0") + "\0 ");
+
+    return header;
+}
+
+/**
+ * エントリの一覧を ustar 形式のアーカイブに変換します。
+ * @param entries エントリの一覧
+ */
+export function encodeTar(entries: TarEntry[]): ArrayBuffer {
+    const blocks: ArrayBuffer[] = [];
+    for (const entry of entries) {
+        blocks.push(createHeader(entry).buffer);
+        if (entry.type === "file" && entry.data) {
+            const data = new Uint8Array(Math.ceil(entry.data.byteLength / BLOCK_SIZE) * BLOCK_SIZE);
+            data.set(new Uint8Array(entry.data));
+            blocks.push(data.buffer);
+        }
+    }
+
+    // NOTE: アーカイブの終端は 2 つの空のブロックで表す
+    blocks.push(new ArrayBuffer(BLOCK_SIZE * 2));
+    return concatArrayBuffer(...blocks);
+}
+
+/**
+ * ustar 形式のアーカイブをエントリの一覧に変換します。
+ * GNU tar の長いパス名 (L / K) と pax 拡張ヘッダーの path / linkpath にも対応しますが、その他の種類のエントリは無視されます。
+ * @param archive アーカイブ
+ */
+export function decodeTar(archive: ArrayBuffer): TarEntry[] {
+    const bytes = new Uint8Array(archive);
+    const decoder = new TextDecoder();
+    const entries: TarEntry[] = [];
+
+    const getString = (block: Uint8Array, offset: number, length: number) => {
+        const field = block.subarray(offset, offset + length);
+        const end = field.indexOf(0);
+        return decoder.decode(end === -1 ? field : field.subarray(0, end));
+    };
+    const getNumber = (block: Uint8Array, offset: number, length: number) =>
+        parseInt(getString(block, offset, length).trim() || "0", 8);
+
+    /** 次のエントリに適用する拡張ヘッダーの値 */
+    let extended: { path?: string, linkpath?: string } = {};
+
+    for (let offset = 0; offset + BLOCK_SIZE <= bytes.length;) {
+        const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+        if (header.every(b => b === 0)) break;
+
+        const checksum = getNumber(header, 148, 8);
+        const sum = header.reduce((a, b, i) => a + (i >= 148 && i < 156 ? 0x20 : b), 0);
+        if (checksum !== sum) throw new ArchiveError("Invalid header checksum at offset " + offset);
+
+        const size = getNumber(header, 124, 12);
+        const data = bytes.slice(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+        if (data.length !== size) throw new ArchiveError("Unexpected end of archive");
+        offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+        const typeFlag = getString(header, 156, 1) || "0";
+        if (typeFlag === "L" || typeFlag === "K") {
+            extended[typeFlag === "L" ? "path" : "linkpath"] = getString(data, 0, data.length);
+            continue;
+        } else if (typeFlag === "x") {
+            // NOTE: pax 拡張ヘッダーは "長さ キー=値\n" の繰り返し
+            for (const record of decoder.decode(data).split("\n")) {
+                const match = record.match(/^\d+ (path|linkpath)=(.*)$/);
+                if (match) extended[match[1] as "path" | "linkpath"] = match[2];
+            }
+            continue;
+        }
+
+        const type = (Object.keys(TYPE_FLAGS) as TarEntry["type"][]).find(t => TYPE_FLAGS[t] === typeFlag);
+        const prefix = getString(header, 345, 155);
+        const pathname = extended.path ?? (prefix ? prefix + PATH_SEPARATOR : "") + getString(header, 0, 100);
+        const target = extended.linkpath ?? getString(header, 157, 100);
+        extended = {};
+        if (type === undefined) continue;
+
+        entries.push({
+            pathname: pathname.replace(/\/+$/, ""),
+            type,
+            mode: getNumber(header, 100, 8),
+            owner: getNumber(header, 108, 8),
+            group: getNumber(header, 116, 8),
+            mtime: getNumber(header, 136, 12) * 1000,
+            data: type === "file" ? data.buffer : undefined,
+            target: type === "symlink" || type === "hardlink" ? target : undefined
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * ファイルとディレクトリを再帰的に ustar 形式のアーカイブにまとめます。
+ * パス名の先頭の / は取り除かれます。デバイスファイルとパイプは含まれません。
+ * @param process 操作を行うプロセス
+ * @param pathnames アーカイブに含めるパス名
+ * @param directory パス名の基準となるディレクトリ
+ * @param onEntry エントリを追加するたびに呼び出される関数
+ */
+export async function packTar(process: Process, pathnames: string[], directory: string = ".", onEntry?: (entry: TarEntry) => void): Promise<ArrayBuffer> {
+    const entries: TarEntry[] = [];
+    /** inode 番号をキーとした、アーカイブに追加済みのハードリンクされたファイルのパス名 */
+    const linked = new Map<number, string>();
+
+    const add = async (pathname: string) => {
+        const absolute = pathname.startsWith(PATH_SEPARATOR) ? pathname : join(directory, pathname);
+        const stat = process.lstat(absolute);
+        const name = pathname.replace(/^\/+/, "").replace(/\/+$/, "") || ".";
+        const base = { pathname: name, mode: stat.mode & 0o7777, owner: stat.owner, group: stat.group, mtime: stat.mtime };
+
+        let entry: TarEntry;
+        if ((stat.mode & StatMode.IFLNK) === StatMode.IFLNK) {
+            entry = { ...base, type: "symlink", target: process.readlink(absolute) };
+        } else if (stat.mode & StatMode.IFDIR) {
+            entry = { ...base, type: "directory" };
+        } else if (stat.mode & StatMode.IFREG) {
+            const source = stat.nlink > 1 ? linked.get(stat.ino) : undefined;
+            if (source !== undefined) {
+                entry = { ...base, type: "hardlink", target: source };
+            } else {
+                const fd = process.open(absolute, OpenFlag.READ);
+                try {
+                    entry = { ...base, type: "file", data: await process.read(fd) };
+                } finally {
+                    process.close(fd);
+                }
+                if (stat.nlink > 1) linked.set(stat.ino, name);
+            }
+        } else {
+            return;
+        }
+
+        entries.push(entry);
+        onEntry?.(entry);
+
+        if (entry.type === "directory") {
+            for (const child of process.readdir(absolute)) await add(join(pathname, child));
+        }
+    };
+
+    for (const pathname of pathnames) await add(pathname);
+    return encodeTar(entries);
+}
+
+/**
+ * ustar 形式のアーカイブをディレクトリに展開します。
+ * 所有者は実効ユーザー ID が root の場合のみ復元されます。シンボリックリンクの所有者と属性は復元されません。
+ * 展開先の外に書き込まないよう、次のエントリは展開されません。
+ * - .. を含むパス名のエントリ
+ * - 絶対パスもしくは .. を含むリンク元を持つハードリンク
+ * - パス名 (ハードリンクの場合はリンク元も) の途中にシンボリックリンクがあるエントリ。先に展開したエントリが作成したものも含みます。
+ * @param process 操作を行うプロセス
+ * @param archive アーカイブ
+ * @param directory 展開先のディレクトリ
+ * @param onEntry エントリを展開するたびに呼び出される関数
+ * @returns 展開したエントリの一覧
+ */
+export async function unpackTar(process: Process, archive: ArrayBuffer, directory: string = ".", onEntry?: (entry: TarEntry) => void): Promise<TarEntry[]> {
+    const extracted: TarEntry[] = [];
+    const directories: TarEntry[] = [];
+    /** 展開先を用意します。親ディレクトリを作成し、ディレクトリ以外の既存のエントリを削除します。 */
+    const prepare = (pathname: string) => {
+        process.mkdir(dirname(pathname), 0o755, true);
+        try {
+            const { mode } = process.lstat(pathname);
+            if ((mode & StatMode.IFLNK) === StatMode.IFLNK || !(mode & StatMode.IFDIR)) process.unlink(pathname);
+        } catch (e) {
+            if (!(e instanceof ENOENT)) throw e;
+        }
+    };
+
+    /**
+     * 展開先のディレクトリからの相対パス名の途中に、シンボリックリンクがあるかどうかを判定します。
+     * @param name 展開先のディレクトリからの相対パス名
+     * @param last 最後の要素も判定するかどうか
+     */
+    const passesSymlink = (name: string, last: boolean) => {
+        const names = name.split(PATH_SEPARATOR).filter(n => n !== "" && n !== ".");
+        for (let i = 1; i <= names.length - (last ? 0 : 1); i++) {
+            try {
+                if ((process.lstat(join(directory, ...names.slice(0, i))).mode & StatMode.IFLNK) === StatMode.IFLNK) return true;
+            } catch (e) {
+                // NOTE: 存在しない部分より先は、これから作成されるためシンボリックリンクではない
+                if (e instanceof ENOENT) return false;
+                throw e;
+            }
+        }
+        return false;
+    };
+
+    for (const entry of decodeTar(archive)) {
+        const name = entry.pathname.replace(/^\/+/, "");
+        if (name.split(PATH_SEPARATOR).includes("..")) continue;
+        // NOTE: ディレクトリは既存のものを使用して属性を設定するため、最後の要素がシンボリックリンクである場合も展開しない
+        if (passesSymlink(name, entry.type === "directory")) continue;
+        if (entry.type === "hardlink") {
+            const target = entry.target ?? "";
+            if (target.startsWith(PATH_SEPARATOR) || target.split(PATH_SEPARATOR).includes("..") || passesSymlink(target, true)) continue;
+        }
+        const pathname = join(directory, name);
+
+        switch (entry.type) {
+            case "directory":
+                try {
+                    process.mkdir(pathname, 0o700, true);
+                } catch (e) {
+                    if (!(e instanceof EEXIST)) throw e;
+                }
+                // NOTE: 書き込み権限のないディレクトリにも中身を展開できるよう、ディレクトリの属性は最後に設定する
+                directories.push({ ...entry, pathname });
+                break;
+            case "file": {
+                prepare(pathname);
+                const fd = process.open(pathname, OpenFlag.WRITE | OpenFlag.TRUNCATE, entry.mode & 0o7777);
+                try {
+                    process.write(fd, entry.data ?? new ArrayBuffer(0));
+                } finally {
+                    process.close(fd);
+                }
+                break;
+            }
+            case "symlink":
+                prepare(pathname);
+                process.symlink(entry.target!, pathname);
+                break;
+            case "hardlink":
+                prepare(pathname);
+                process.link(join(directory, entry.target!), pathname);
+                break;
+        }
+
+        if (entry.type === "file" || entry.type === "hardlink") {
+            if (process.geteuid() === 0) process.chown(pathname, entry.owner, entry.group);
+            process.chmod(pathname, entry.mode & 0o7777);
+            process.utimes(pathname, entry.mtime, entry.mtime);
+        }
+
+        extracted.push(entry);
+        onEntry?.(entry);
+    }
+
+    for (const entry of directories.reverse()) {
+        if (process.geteuid() === 0) process.chown(entry.pathname, entry.owner, entry.group);
+        process.chmod(entry.pathname, entry.mode & 0o7777);
+        process.utimes(entry.pathname, entry.mtime, entry.mtime);
+    }
+
+    return extracted;
+}
@@ -0,0 +1,186 @@
+/** 端末のウィンドウサイズ */
+export interface TerminalSize {
+    /** 列数 */
+    columns: number;
+    /** 行数 */
+    rows: number;
+}
+
+/** 端末の既定のウィンドウサイズ */
+export const DEFAULT_TERMINAL_SIZE: Readonly<TerminalSize> = { columns: 80, rows: 24 };
+
+/** 購読を解除するためのオブジェクト */
+export interface Disposable {
+    dispose(): void;
+}
+
+/**
+ * 端末デバイスに接続するホスト側の端末。
+ * 端末デバイスはこのインターフェースを通じて入出力を行うため、xterm.js・Node.js の標準入出力・メモリ上の端末のいずれにも接続できます。
+ */
+export interface TerminalBackend {
+    /** 接続時のウィンドウサイズ。省略した場合は 80x24 として扱います。 */
+    readonly size?: TerminalSize;
+
+    /** 端末に出力します。 */
+    write(data: string): void;
+
+    /** 端末への入力を受け取る関数を登録します。 */
+    onData(listener: (data: string) => void): Disposable;
+
+    /** 端末のウィンドウサイズの変更を受け取る関数を登録します。 */
+    onResize?(listener: (size: TerminalSize) => void): Disposable;
+
+    /** ベルを鳴らします。省略した場合、ベル文字はそのまま出力されます。 */
+    bell?(): void;
+}
+
+/** createXtermBackend が必要とする、xterm.js の Terminal の機能 */
+export interface XtermLike {
+    readonly cols: number;
+    readonly rows: number;
+    write(data: string): void;
+    onData(listener: (data: string) => void): Disposable;
+    onResize(listener: (size: { cols: number, rows: number }) => void): Disposable;
+}
+
+/**
+ * xterm.js の Terminal に接続するバックエンドを作成します。
+ * ベル文字はそのまま出力されるため、xterm.js の onBell で受け取れます。
+ * @param terminal xterm.js の Terminal
+ */
+export function createXtermBackend(terminal: XtermLike): TerminalBackend {
+    return {
+        get size() {
+            return { columns: terminal.cols, rows: terminal.rows };
+        },
+        write: data => terminal.write(data),
+        onData: listener => terminal.onData(listener),
+        onResize: listener => terminal.onResize(({ cols, rows }) => listener({ columns: cols, rows }))
+    };
+}
+
+/**
+ * Node.js の標準入出力に接続するバックエンドを作成します。
+ * 入力が端末の場合は raw モードに切り替え、すべての入力を端末デバイスのラインディシプリンで処理します。
+ * 入力の購読をすべて解除すると raw モードを元に戻し、入力の読み込みを停止します。
+ * @param input 入力ストリーム
+ * @param output 出力ストリーム
+ */
+export function createNodeTerminalBackend(input: NodeJS.ReadStream = process.stdin, output: NodeJS.WriteStream = process.stdout): TerminalBackend {
+    const decoder = new TextDecoder();
+    let subscribers = 0;
+
+    return {
+        get size() {
+            return output.isTTY ? { columns: output.columns, rows: output.rows } : { ...DEFAULT_TERMINAL_SIZE };
+        },
+        write: data => {
+            output.write(data);
+        },
+        onData: listener => {
+            const onData = (chunk: Buffer | string) => listener(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+            if (subscribers++ === 0) {
+                if (input.isTTY) input.setRawMode(true);
+                input.resume();
+            }
+            input.on("data", onData);
+
+            let disposed = false;
+            return {
+                dispose: () => {
+                    if (disposed) return;
+                    disposed = true;
+                    input.off("data", onData);
+                    if (--subscribers === 0) {
+                        if (input.isTTY) input.setRawMode(false);
+                        input.pause();
+                    }
+                }
+            };
+        },
+        onResize: listener => {
+            const onResize = () => listener({ columns: output.columns, rows: output.rows });
+            output.on("resize", onResize);
+            return { dispose: () => output.off("resize", onResize) };
+        },
+        bell: () => {
+            output.write("\x07");
+        }
+    };
+}
+
+/** メモリ上の端末。プログラムから入力を与え、出力を検査するために使用します。 */
+export interface MemoryTerminal extends TerminalBackend {
+    /** これまでに出力された文字列 */
+    readonly output: string;
+
+    /** ベルが鳴らされた回数 */
+    readonly bells: number;
+
+    /** 現在のウィンドウサイズ */
+    readonly size: TerminalSize;
+
+    /**
+     * 端末に入力します。
+     * @param data 入力する文字列
+     */
+    input(data: string): void;
+
+    /**
+     * ウィンドウサイズを変更します。
+     * @param size 新しいウィンドウサイズ
+     */
+    resize(size: TerminalSize): void;
+
+    /** 出力された文字列を消去します。 */
+    clear(): void;
+}
+
+/**
+ * メモリ上の端末を作成します。
+ * @param size ウィンドウサイズ
+ */
+export function createMemoryTerminal(size: TerminalSize = DEFAULT_TERMINAL_SIZE): MemoryTerminal {
+    let dataListeners: ((data: string) => void)[] = [];
+    let resizeListeners: ((size: TerminalSize) => void)[] = [];
+    let currentSize = { ...size };
+    let output = "";
+    let bells = 0;
+
+    return {
+        get output() {
+            return output;
+        },
+        get bells() {
+            return bells;
+        },
+        get size() {
+            return { ...currentSize };
+        },
+        write: data => {
+            output += data;
+        },
+        onData: listener => {
+            dataListeners.push(listener);
+            return { dispose: () => { dataListeners = dataListeners.filter(l => l !== listener); } };
+        },
+        onResize: listener => {
+            resizeListeners.push(listener);
+            return { dispose: () => { resizeListeners = resizeListeners.filter(l => l !== listener); } };
+        },
+        bell: () => {
+            bells++;
+        },
+        input: data => {
+            [...dataListeners].forEach(l => l(data));
+        },
+        resize: newSize => {
+            currentSize = { ...newSize };
+            [...resizeListeners].forEach(l => l({ ...currentSize }));
+        },
+        clear: () => {
+            output = "";
+        }
+    };
+}
@@ -0,0 +1,422 @@
+import { EINVAL } from "./Error";
+import { DeviceFile, TerminalControl } from "./File";
+import { InputFlag, LocalFlag, OutputFlag, Signal } from "./Flags";
+import { DEFAULT_TERMINAL_SIZE, Disposable, TerminalBackend, TerminalSize } from "./Terminal";
+import { getGraphemeWidth, splitGraphemes } from "./Utils";
+
+/** 端末の制御文字。空文字列の場合、その制御文字は無効になります。 */
+export interface ControlCharacters {
+    /** 割り込み文字。ISIG が有効な場合、フォアグラウンドプロセスグループに SIGINT を送信します。 */
+    VINTR: string;
+    /** 消去文字。カノニカルモードで直前の 1 文字を消去します。 */
+    VERASE: string;
+    /** 行消去文字。カノニカルモードで編集中の行を消去します。 */
+    VKILL: string;
+    /** ファイル終端文字。カノニカルモードで編集中の行を改行なしで読み込み可能にし、行が空の場合は読み込みが EOF を返します。 */
+    VEOF: string;
+    /** 非カノニカルモードで、読み込みが完了する最小の文字数 */
+    VMIN: number;
+    /** 非カノニカルモードで、入力を待機する時間 (0.1 秒単位) */
+    VTIME: number;
+}
+
+/** 端末の属性 */
+export interface Termios {
+    /** 入力モード */
+    iflag: InputFlag;
+    /** 出力モード */
+    oflag: OutputFlag;
+    /** ローカルモード */
+    lflag: LocalFlag;
+    /** 制御文字 */
+    cc: ControlCharacters;
+}
+
+/** 端末の既定の属性を作成します。 */
+export function defaultTermios(): Termios {
+    return {
+        iflag: InputFlag.ICRNL,
+        oflag: OutputFlag.OPOST | OutputFlag.ONLCR,
+        lflag: LocalFlag.ISIG | LocalFlag.ICANON | LocalFlag.ECHO | LocalFlag.ECHOE | LocalFlag.ECHOK | LocalFlag.ECHOCTL,
+        cc: {
+            VINTR: "\x03",
+            VERASE: "\x7f",
+            VKILL: "\x15",
+            VEOF: "\x04",
+            VMIN: 1,
+            VTIME: 0
+        }
+    };
+}
+
+/**
+ * 制御文字かどうかを判定します。
+ * @param char 文字
+ */
+function isControlCharacter(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return char.length === 1 && (code < 0x20 || code === 0x7f);
+}
+
+/**
+ * 端末のラインディシプリン。
+ * 端末からの入力を属性に従ってエコー・行編集・シグナルの送信を行いながらバッファし、読み込みに渡します。
+ * 端末への出力も属性に従って加工します。
+ */
+export class LineDiscipline {
+    /** 端末の属性 */
+    private termios: Termios = defaultTermios();
+
+    /** 読み込み可能な入力 */
+    private queue: string = "";
+
+    /** カノニカルモードで編集中の行 */
+    private line: string = "";
+
+    /** カノニカルモードで VEOF によって区切られた、読み込み可能な入力の中の位置 */
+    private eofs: number[] = [];
+
+    /** 最後に入力を受け取った時刻 (UNIX 時間のミリ秒) */
+    private lastInput: number = 0;
+
+    /** 入力の到着を待っている読み込み処理 */
+    private waiting: (() => void)[] = [];
+
+    /** カーネルを操作するためのオブジェクト。エミュレーターの起動時に設定されます。 */
+    private control: TerminalControl | null = null;
+
+    /** 出力を UTF-8 の文字の途中で分割されても復号できるようにするためのデコーダー */
+    private decoder: TextDecoder = new TextDecoder();
+
+    /** 加工した出力を書き込む関数 */
+    private output: ((data: string) => void) | null;
+
+    /** 接続されているホストの端末と、その入力・ウィンドウサイズの変更の購読 */
+    private connection: { terminal: TerminalBackend, subscriptions: Disposable[] } | null = null;
+
+    /** 端末のウィンドウサイズ */
+    private size: TerminalSize = { ...DEFAULT_TERMINAL_SIZE };
+
+    /** ハングアップしたかどうか */
+    private hungUp: boolean = false;
+
+    /**
+     * @param output 加工した出力を書き込む関数。接続されたホストの端末には、この関数とは別に出力されます。
+     */
+    public constructor(output: ((data: string) => void) | null = null) {
+        this.output = output;
+    }
+
+    /**
+     * ホストの端末を接続します。既に接続されている端末は切断されます。
+     * ウィンドウサイズはホストの端末に合わせて変更されます。
+     * @param terminal ホストの端末
+     */
+    public connect(terminal: TerminalBackend): void {
+        this.disconnect();
+
+        const subscriptions = [terminal.onData(data => this.receive(data))];
+        if (terminal.onResize) subscriptions.push(terminal.onResize(size => this.tcsetwinsize(size)));
+        this.connection = { terminal, subscriptions };
+        if (terminal.size) this.tcsetwinsize(terminal.size);
+    }
+    /** 接続されているホストの端末を切断します。 */
+    public disconnect(): void {
+        this.connection?.subscriptions.forEach(s => s.dispose());
+        this.connection = null;
+    }
+
+    /**
+     * 端末をハングアップさせます。フォアグラウンドプロセスグループに SIGHUP を送信し、以降の読み込みは EOF を返します。
+     */
+    public hangup(): void {
+        if (this.hungUp) return;
+
+        this.hungUp = true;
+        this.disconnect();
+        this.control?.signal(Signal.SIGHUP);
+        this.notify();
+    }
+
+    /**
+     * カーネルを操作するためのオブジェクトを設定します。端末デバイスの attach から呼び出してください。
+     * @param control カーネルを操作するためのオブジェクト
+     */
+    public attach(control: TerminalControl): void {
+        this.control = control;
+    }
+
+    /** 端末の属性を取得します。 */
+    public tcgetattr(): Termios {
+        return { ...this.termios, cc: { ...this.termios.cc } };
+    }
+    /**
+     * 端末の属性を設定します。
+     * @param termios 端末の属性
+     */
+    public tcsetattr(termios: Termios): void {
+        if (!Number.isInteger(termios.cc.VMIN) || !Number.isInteger(termios.cc.VTIME) || termios.cc.VMIN < 0 || termios.cc.VTIME < 0) {
+            throw new EINVAL();
+        }
+
+        const wasCanonical = this.termios.lflag & LocalFlag.ICANON;
+        this.termios = { ...termios, cc: { ...termios.cc } };
+
+        // NOTE: 非カノニカルモードに切り替えた場合、編集中の行はそのまま読み込み可能になり、VEOF による区切りは VEOF の文字に戻す
+        if (wasCanonical && !(termios.lflag & LocalFlag.ICANON)) {
+            for (const eof of this.eofs.reverse()) this.queue = this.queue.slice(0, eof) + termios.cc.VEOF + this.queue.slice(eof);
+            this.queue += this.line;
+            this.line = "";
+            this.eofs = [];
+        }
+        this.notify();
+    }
+
+    /** 端末のウィンドウサイズを取得します。 */
+    public tcgetwinsize(): TerminalSize {
+        return { ...this.size };
+    }
+    /**
+     * 端末のウィンドウサイズを設定します。サイズが変わった場合、フォアグラウンドプロセスグループに SIGWINCH を送信します。
+     * @param size ウィンドウサイズ
+     */
+    public tcsetwinsize(size: TerminalSize): void {
+        if (!Number.isInteger(size.columns) || !Number.isInteger(size.rows) || size.columns < 0 || size.rows < 0) throw new EINVAL();
+        if (size.columns === this.size.columns && size.rows === this.size.rows) return;
+
+        this.size = { columns: size.columns, rows: size.rows };
+        this.control?.signal(Signal.SIGWINCH);
+    }
+
+    /**
+     * 端末からの入力を受け取ります。
+     * @param data 入力された文字列
+     */
+    public receive(data: string): void {
+        for (let char of data) {
+            const { iflag, lflag, cc } = this.termios;
+            if (iflag & InputFlag.ICRNL && char === "\r") char = "\n";
+
+            if (lflag & LocalFlag.ISIG && char === cc.VINTR) {
+                if (lflag & LocalFlag.ECHO) this.echo(char);
+                if (!(lflag & LocalFlag.NOFLSH)) {
+                    this.queue = "";
+                    this.line = "";
+                    this.eofs = [];
+                }
+                this.control?.signal(Signal.SIGINT);
+                continue;
+            }
+
+            if (lflag & LocalFlag.ICANON) {
+                if (char === cc.VERASE) {
+                    if (this.line === "") continue;
+
+                    const erased = splitGraphemes(this.line).at(-1)!;
+                    this.line = this.line.slice(0, -erased.length);
+                    if (lflag & LocalFlag.ECHO && lflag & LocalFlag.ECHOE) this.erase(erased);
+                    continue;
+                } else if (char === cc.VKILL) {
+                    if (lflag & LocalFlag.ECHO && lflag & LocalFlag.ECHOK) this.erase(this.line);
+                    this.line = "";
+                    continue;
+                } else if (char === cc.VEOF) {
+                    // NOTE: VEOF はエコーせず、入力にも含めない
+                    this.queue += this.line;
+                    this.line = "";
+                    this.eofs.push(this.queue.length);
+                    continue;
+                }
+
+                this.line += char;
+                if (char === "\n") {
+                    this.queue += this.line;
+                    this.line = "";
+                }
+            } else {
+                this.queue += char;
+            }
+
+            if (lflag & LocalFlag.ECHO || char === "\n" && lflag & LocalFlag.ECHONL) this.echo(char);
+        }
+
+        this.lastInput = Date.now();
+        this.notify();
+    }
+
+    /**
+     * 入力を読み込みます。
+     * カノニカルモードでは 1 行が入力されるまで、非カノニカルモードでは VMIN と VTIME に従って待機します。
+     * カノニカルモードで空の行に VEOF が入力された場合は、空のバッファ (EOF) を返します。
+     * @param signal 待機を中断するためのシグナル
+     * @param count 読み込む最大サイズ (バイト)。1 文字が最大サイズを超える場合でも、少なくとも 1 文字を読み込みます。
+     */
+    public async read(signal?: AbortSignal, count: number = Infinity): Promise<ArrayBuffer> {
+        const start = Date.now();
+        while (true) {
+            const { lflag, cc } = this.termios;
+            const timeout = cc.VTIME * 100;
+            let wait: number | undefined = undefined;
+
+            // NOTE: ハングアップした端末では、残っている入力を読み終えた後は空のバッファ (EOF) を返す
+            if (this.hungUp) return this.take(Infinity, count);
+
+            if (lflag & LocalFlag.ICANON) {
+                const end = this.queue.indexOf("\n");
+                const eof = this.eofs.at(0);
+                if (eof === 0) {
+                    this.eofs.shift();
+                    return new ArrayBuffer(0);
+                } else if (eof !== undefined && (end === -1 || eof <= end)) {
+                    // NOTE: VEOF で区切られた行は改行を含めずに返し、その区切りは EOF として扱わない
+                    const data = this.take(eof, count);
+                    if (this.eofs[0] === 0) this.eofs.shift();
+                    return data;
+                }
+                if (end !== -1) return this.take(end + 1, count);
+            } else if (cc.VMIN > 0) {
+                // NOTE: VTIME は最初の文字を受け取ってからの、文字間のタイムアウトとして扱う
+                if (this.queue.length >= cc.VMIN) return this.take(Infinity, count);
+                if (timeout > 0 && this.queue.length > 0) {
+                    wait = this.lastInput + timeout - Date.now();
+                    if (wait <= 0) return this.take(Infinity, count);
+                }
+            } else {
+                // NOTE: VMIN が 0 の場合、VTIME は読み込み全体のタイムアウトとして扱い、タイムアウトした場合は空のバッファを返す
+                if (this.queue.length > 0 || timeout === 0) return this.take(Infinity, count);
+                wait = start + timeout - Date.now();
+                if (wait <= 0) return this.take(Infinity, count);
+            }
+
+            await new Promise<void>((resolve, reject) => {
+                const timer = wait === undefined ? undefined : setTimeout(() => wake(), wait);
+                const onAbort = () => {
+                    clearTimeout(timer);
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    reject(signal!.reason);
+                };
+                const wake = () => {
+                    clearTimeout(timer);
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                };
+
+                if (signal?.aborted) return onAbort();
+                signal?.addEventListener("abort", onAbort, { once: true });
+                this.waiting.push(wake);
+            });
+        }
+    }
+
+    /**
+     * 端末に出力します。
+     * @param data 出力するデータ
+     */
+    public write(data: ArrayBuffer): void {
+        this.emit(this.decoder.decode(data, { stream: true }));
+    }
+
+    /**
+     * 読み込み可能な入力を先頭から取り出します。
+     * @param length 取り出す最大の長さ (UTF-16 のコード単位)
+     * @param count 取り出す最大サイズ (バイト)
+     */
+    private take(length: number, count: number): ArrayBuffer {
+        const encoder = new TextEncoder();
+        let taken = "";
+        let size = 0;
+        for (const char of this.queue.slice(0, length)) {
+            const charSize = encoder.encode(char).byteLength;
+            if (taken !== "" && size + charSize > count) break;
+
+            taken += char;
+            size += charSize;
+        }
+
+        this.queue = this.queue.slice(taken.length);
+        this.eofs = this.eofs.map(eof => eof - taken.length).filter(eof => eof >= 0);
+        return encoder.encode(taken).buffer;
+    }
+
+    /**
+     * 入力された文字をエコーします。
+     * @param char 文字
+     */
+    private echo(char: string): void {
+        if (this.termios.lflag & LocalFlag.ECHOCTL && isControlCharacter(char) && char !== "\n" && char !== "\t") {
+            this.emit("^" + (char === "\x7f" ? "?" : String.fromCharCode(char.charCodeAt(0) + 0x40)));
+        } else {
+            this.emit(char);
+        }
+    }
+
+    /**
+     * エコーした文字列を画面から消去します。
+     * @param text 消去する文字列
+     */
+    private erase(text: string): void {
+        const width = splitGraphemes(text).reduce((total, grapheme) => total + (isControlCharacter(grapheme) && this.termios.lflag & LocalFlag.ECHOCTL ? 2 : getGraphemeWidth(grapheme)), 0);
+        this.emit("\b \b".repeat(width));
+    }
+
+    /**
+     * 出力モードに従って加工し、端末に書き込みます。
+     * @param text 文字列
+     */
+    private emit(text: string): void {
+        const { oflag } = this.termios;
+        if (oflag & OutputFlag.OPOST && oflag & OutputFlag.ONLCR) text = text.replaceAll("\n", "\r\n");
+        this.output?.(text);
+
+        const terminal = this.connection?.terminal;
+        if (!terminal) return;
+        if (terminal.bell && text.includes("\x07")) {
+            // NOTE: ベルを鳴らせるホストの端末には、ベル文字を取り除いて出力する
+            text = text.replaceAll("\x07", "");
+            terminal.bell();
+        }
+        if (text !== "") terminal.write(text);
+    }
+
+    /** 入力の到着や属性の変更を、待機中の読み込み処理に通知します。 */
+    private notify(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(r => r());
+    }
+}
+
+/** ラインディシプリンを持つ端末デバイス */
+export interface TtyDevice extends DeviceFile {
+    /** 端末のラインディシプリン */
+    discipline: LineDiscipline;
+}
+
+/**
+ * ラインディシプリンを持つ端末デバイスを作成します。ホストの端末 (TerminalBackend) は connect で接続します。
+ * @param name デバイス名
+ * @param discipline 端末のラインディシプリン
+ * @param owner 所有者
+ * @param group 所有グループ
+ * @param mode アクセス権限
+ */
+export function createTtyDevice(name: string, discipline: LineDiscipline = new LineDiscipline(), owner: number = 0, group: number = 0, mode: number = 0o666): TtyDevice {
+    return {
+        name,
+        type: "device",
+        owner,
+        group,
+        mode,
+        deleted: false,
+        discipline,
+        read: (signal, count) => discipline.read(signal, count),
+        write: data => discipline.write(data),
+        attach: control => discipline.attach(control),
+        connect: terminal => discipline.connect(terminal),
+        tcgetattr: () => discipline.tcgetattr(),
+        tcsetattr: termios => discipline.tcsetattr(termios),
+        tcgetwinsize: () => discipline.tcgetwinsize(),
+        tcsetwinsize: size => discipline.tcsetwinsize(size)
+    };
+}
@@ -2,17 +2,50 @@ import { PathError } from ".";
 
 export const PATH_SEPARATOR = "/";
 
-/** 偽の ELF ファイルのように見える内容を作成します。 */
-export function generateFakeElfFile(): Uint8Array {
+/** ELF ファイルの識別子 */
+const ELF_IDENT = [0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01];
+/** 偽の ELF ファイルに埋め込むプログラム名ヘッダーのマジックナンバー ("KTNM") */
+const PROGRAM_HEADER_MAGIC = [0x4b, 0x54, 0x4e, 0x4d];
+
+/**
+ * 偽の ELF ファイルのように見える内容を作成します。
+ * @param program 実行するプログラムの名前。指定した場合、ELF 識別子の直後にプログラム名ヘッダーを埋め込みます。
+ */
+export function generateFakeElfFile(program?: string): Uint8Array {
     const randomByte = (max: number = 0xff) => Math.floor(Math.random() * (max + 1));
-    const data = new Uint8Array(16 + 16 * Math.floor(Math.random() * 100));
 
-    data.set(new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01]), 0);
+    // NOTE: プログラム名ヘッダーは、マジックナンバー・プログラム名の長さ (2 バイト)・UTF-8 のプログラム名からなり、16 バイト単位に揃える
+    const name = new TextEncoder().encode(program ?? "");
+    const headerLength = program === undefined ? 0 : Math.ceil((PROGRAM_HEADER_MAGIC.length + 2 + name.length) / 16) * 16;
+    const data = new Uint8Array(16 + headerLength + 16 * Math.floor(Math.random() * 100));
+
+    data.set(ELF_IDENT, 0);
+    if (program !== undefined) {
+        data.set(PROGRAM_HEADER_MAGIC, 16);
+        new DataView(data.buffer).setUint16(16 + PROGRAM_HEADER_MAGIC.length, name.length);
+        data.set(name, 16 + PROGRAM_HEADER_MAGIC.length + 2);
+    }
 
-    for (let i = 0; i < (data.length - 16) / 16; i++) data.set(new Uint8Array([randomByte(), randomByte(), randomByte(2), randomByte(1), 0x00, 0x00, 0x00, 0x00, randomByte(), randomByte(), randomByte(2), randomByte(1), 0x00, 0x00, 0x00, 0x00]), 16 + i * 16);
+    for (let i = (16 + headerLength) / 16; i < data.length / 16; i++) data.set(new Uint8Array([randomByte(), randomByte(), randomByte(2), randomByte(1), 0x00, 0x00, 0x00, 0x00, randomByte(), randomByte(), randomByte(2), randomByte(1), 0x00, 0x00, 0x00, 0x00]), i * 16);
 
     return data;
 }
+/**
+ * 偽の ELF ファイルに埋め込まれたプログラム名を取得します。
+ * @param data ファイルの内容
+ * @returns プログラム名、ELF ファイルでないかプログラム名ヘッダーを含まない場合は null
+ */
+export function readProgramName(data: ArrayBuffer): string | null {
+    const bytes = new Uint8Array(data);
+    const offset = ELF_IDENT.length + PROGRAM_HEADER_MAGIC.length;
+    if (bytes.length < offset + 2) return null;
+    if (!ELF_IDENT.slice(0, 4).every((b, i) => bytes[i] === b)) return null;
+    if (!PROGRAM_HEADER_MAGIC.every((b, i) => bytes[ELF_IDENT.length + i] === b)) return null;
+
+    const length = new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset);
+    if (bytes.length < offset + 2 + length) return null;
+    return new TextDecoder().decode(bytes.subarray(offset + 2, offset + 2 + length));
+}
 
 /** 複数の ArrayBuffer を結合します。 */
 export function concatArrayBuffer(...buf: ArrayBuffer[]): ArrayBuffer {
@@ -25,6 +58,90 @@ export function concatArrayBuffer(...buf: ArrayBuffer[]): ArrayBuffer {
     return result.buffer;
 }
 
+/** バイナリデータを Base64 文字列に変換します。 */
+export function encodeBase64(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let binary = "";
+    // NOTE: 引数の数の上限を超えないよう、分割して変換する
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+}
+/** Base64 文字列をバイナリデータに変換します。 */
+export function decodeBase64(base64: string): ArrayBuffer {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0)).buffer;
+}
+
+/** SHA-256 のラウンド定数 */
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+/** データの SHA-256 ハッシュ値を計算します。 */
+export function sha256(data: ArrayBuffer | Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(data);
+
+    // NOTE: 長さが 64 バイトの倍数になるようにパディングし、末尾にビット長を付加する
+    const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+    view.setUint32(padded.length - 4, bytes.length * 8);
+
+    const hash = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+    const w = new Uint32Array(64);
+    const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = hash;
+        for (let i = 0; i < 64; i++) {
+            const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+            const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+            [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+        }
+
+        [a, b, c, d, e, f, g, h].forEach((v, i) => hash[i] += v);
+    }
+
+    const result = new Uint8Array(32);
+    const resultView = new DataView(result.buffer);
+    hash.forEach((v, i) => resultView.setUint32(i * 4, v));
+    return result;
+}
+
+/**
+ * パスワードをソルト付きでハッシュ化し、`$sha256$ソルト$ハッシュ値` の形式の文字列にします。
+ * @param password パスワード
+ * @param [salt] ソルト (省略した場合はランダムに生成されます)
+ */
+export function hashPassword(password: string, salt: string = Math.random().toString(36).slice(2, 10)): string {
+    const hash = [...sha256(new TextEncoder().encode(salt + password))].map(b => b.toString(16).padStart(2, "0")).join("");
+    return `$sha256$${salt}$${hash}`;
+}
+/**
+ * パスワードが {@link hashPassword} で生成されたハッシュ値と一致するかどうかを確認します。
+ * @param password パスワード
+ * @param hashed ハッシュ化されたパスワード
+ */
+export function verifyPassword(password: string, hashed: string): boolean {
+    const [, method, salt] = hashed.split("$");
+    if (method !== "sha256" || salt === undefined) return false;
+    return hashPassword(password, salt) === hashed;
+}
+
 /**
  * パスを絶対パスのエントリ名の配列に変換します。
  * @param pathname パス
@@ -140,6 +257,32 @@ export function split(content: string, variables: Record<string, string> = {}) {
         );
 }
 
+/**
+ * コマンドの文字列を、クオーテーションの外側にありエスケープされていない区切り文字で分割します。
+ * @param content 文字列
+ * @param separator 区切り文字
+ */
+export function splitUnquoted(content: string, separator: string): string[] {
+    const result: string[] = [""];
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === "\\") {
+            // NOTE: エスケープ文字列はそのまま残し、split で処理する
+            result[result.length - 1] += content.slice(i, i + 2);
+            i++;
+        } else if (!quoted && content.startsWith(separator, i)) {
+            result.push("");
+            i += separator.length - 1;
+        } else {
+            if (content[i] === "\"") quoted = !quoted;
+            result[result.length - 1] += content[i];
+        }
+    }
+
+    return result;
+}
+
 type oneHyphenOptionsList = (string | { id: string, needsArgument?: boolean })[];
 type twoHyphensOptionsList = (string | { id: string, usesArgument?: boolean, needsArgument?: boolean })[];
 type optionsData = { index: { [id: string]: number }, arguments: { [id: string]: unknown }, lastOptionIndex: number, invalidOption?: string };
@@ -238,3 +381,47 @@ export function parseOptions(args: string[], oneHyphen: oneHyphenOptionsList = [
     };
     return returnOptionsData;
 }
+
+/**
+ * 東アジアの文字幅が W (全角) もしくは F (全角形) である、絵文字以外の文字のコードポイントの範囲。
+ * 絵文字は Emoji_Presentation プロパティで判定します。
+ */
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115f], [0x2329, 0x232a], [0x2e80, 0x303e], [0x3041, 0x33ff], [0x3400, 0x4dbf], [0x4e00, 0x9fff],
+    [0xa000, 0xa4cf], [0xa960, 0xa97f], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe10, 0xfe19], [0xfe30, 0xfe6f],
+    [0xff00, 0xff60], [0xffe0, 0xffe6], [0x16fe0, 0x16fe4], [0x17000, 0x18aff], [0x1b000, 0x1b2ff], [0x1f200, 0x1f2ff],
+    [0x20000, 0x2fffd], [0x30000, 0x3fffd]
+];
+
+/**
+ * 文字列を書記素クラスタ (結合文字や絵文字の修飾子を含めた、ユーザーから見た 1 文字) に分割します。
+ * @param str 文字列
+ */
+export function splitGraphemes(str: string): string[] {
+    if (typeof Intl.Segmenter === "function") {
+        return [...new Intl.Segmenter().segment(str)].map(s => s.segment);
+    }
+
+    // NOTE: Intl.Segmenter が使用できない環境では、国旗・結合文字・異体字セレクタ・修飾子・ゼロ幅接合子による結合のみを扱う
+    return str.match(/\p{Regional_Indicator}{2}|(?:\r\n|[^])(?:[\p{M}\uFE00-\uFE0F\p{Emoji_Modifier}]|\u200D[^])*/gu) ?? [];
+}
+
+/**
+ * 書記素クラスタを端末に表示した際の幅 (半角を単位とする) を取得します。
+ * 制御文字と結合文字は 0、東アジアの全角文字と絵文字は 2、それ以外は 1 になります。
+ * @param grapheme 書記素クラスタ
+ */
+export function getGraphemeWidth(grapheme: string): number {
+    const code = grapheme.codePointAt(0) ?? 0;
+    if (code < 0x20 || 0x7f <= code && code < 0xa0 || /^[\p{M}\u200B-\u200F\u2060\uFEFF]/u.test(grapheme)) return 0;
+    if (/\p{Emoji_Presentation}|\uFE0F|\p{Regional_Indicator}/u.test(grapheme)) return 2;
+    return WIDE_RANGES.some(([start, end]) => start <= code && code <= end) ? 2 : 1;
+}
+
+/**
+ * 文字列を端末に表示した際の幅 (半角を単位とする) を取得します。
+ * @param str 文字列
+ */
+export function getStringWidth(str: string): number {
+    return splitGraphemes(str).reduce((total, grapheme) => total + getGraphemeWidth(grapheme), 0);
+}
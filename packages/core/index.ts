@@ -1,6 +1,18 @@
 export * from "./Emulator";
 export * from "./Error";
+export * from "./FileSystem";
 export * from "./File";
 export * from "./Flags";
+export * from "./Persistence";
+export * from "./Pipe";
 export * from "./Process";
+export * from "./ProcFS";
+export * from "./Pty";
+export * from "./Sandbox";
+export * from "./Screen";
+export * from "./Session";
+export * from "./Snapshot";
+export * from "./Tar";
+export * from "./Terminal";
+export * from "./Tty";
 export * from "./Utils";
@@ -1,19 +1,304 @@
-import { Terminal } from "@xterm/xterm";
 import { EmulatorInit } from "@/core/Emulator";
-import { EISDIR, ELIBBAD, ENOENT } from "@/core/Error";
-import { OpenFlag, StatMode, StdReadFlag } from "@/core/Flags";
-import { basename, concatArrayBuffer, join, split, parseOptions } from "@/core/Utils";
-import { File } from "@/core/File";
+import { ArchiveError, EACCES, EBADFD, EBUSY, EEXIST, EINTR, EINVAL, EISDIR, ELIBBAD, ELOOP, ENODEV, ENOENT, ENOEXEC, ENOTDIR, ENOTEMPTY, ENOTTY, EPERM, EPIPE, EROFS, ESRCH, EXDEV, OSError } from "@/core/Error";
+import { AccessFlag, InputFlag, LocalFlag, MountFlag, OpenFlag, OutputFlag, Signal, StatMode } from "@/core/Flags";
+import { basename, concatArrayBuffer, join, split, splitUnquoted, parseOptions, hashPassword, verifyPassword, getStringWidth } from "@/core/Utils";
+import { Completion, File, ProgramLibrary } from "@/core/File";
+import { Process } from "@/core/Process";
+import { decodeTar, packTar, TarEntry, unpackTar } from "@/core/Tar";
+import { TerminalBackend, TerminalSize } from "@/core/Terminal";
+import { createTtyDevice, defaultTermios, Termios } from "@/core/Tty";
+
+/** /etc/passwd のエントリ */
+interface PasswdEntry {
+    /** ユーザー名 */
+    name: string;
+    /** パスワード (x の場合は /etc/shadow を参照する) */
+    password: string;
+    /** ユーザー ID */
+    uid: number;
+    /** グループ ID */
+    gid: number;
+    /** コメント */
+    gecos: string;
+    /** ホームディレクトリ */
+    home: string;
+    /** ログインシェル */
+    shell: string;
+}
+
+/** /etc/group のエントリ */
+interface GroupEntry {
+    /** グループ名 */
+    name: string;
+    /** パスワード */
+    password: string;
+    /** グループ ID */
+    gid: number;
+    /** 所属するユーザー名 */
+    members: string[];
+}
+
+/** ファイルの内容をすべて文字列として読み込みます。 */
+async function readTextFile(process: Process, pathname: string): Promise<string> {
+    const fd = process.open(pathname, OpenFlag.READ);
+    try {
+        const decoder = new TextDecoder();
+        let text = "";
+        while (true) {
+            const data = await process.read(fd);
+            if (data.byteLength === 0) break;
+            text += decoder.decode(data, { stream: true });
+        }
+        return text;
+    } finally {
+        process.close(fd);
+    }
+}
+/** ファイルの内容を文字列で置き換えます。 */
+function writeTextFile(process: Process, pathname: string, text: string, flags: OpenFlag = OpenFlag.TRUNCATE): void {
+    const fd = process.open(pathname, OpenFlag.WRITE | flags);
+    try {
+        process.write(fd, new TextEncoder().encode(text));
+    } finally {
+        process.close(fd);
+    }
+}
+/** コロン区切りのデータベースファイルを読み込みます。 */
+async function readDatabase(process: Process, pathname: string): Promise<string[][]> {
+    return (await readTextFile(process, pathname)).split("\n").filter(l => l !== "").map(l => l.split(":"));
+}
+/** /etc/passwd を読み込みます。 */
+async function readPasswd(process: Process): Promise<PasswdEntry[]> {
+    return (await readDatabase(process, "/etc/passwd")).map(([name, password, uid, gid, gecos, home, shell]) => ({
+        name, password, uid: parseInt(uid), gid: parseInt(gid), gecos, home, shell
+    }));
+}
+/** /etc/group を読み込みます。 */
+async function readGroup(process: Process): Promise<GroupEntry[]> {
+    return (await readDatabase(process, "/etc/group")).map(([name, password, gid, members]) => ({
+        name, password, gid: parseInt(gid), members: (members ?? "").split(",").filter(m => m !== "")
+    }));
+}
+
+/** /proc から読み込んだプロセスの情報 */
+interface ProcessInfo {
+    /** プロセス ID */
+    pid: number;
+    /** 親プロセス ID */
+    ppid: number;
+    /** プロセスグループ ID */
+    pgid: number;
+    /** ユーザー ID */
+    uid: number;
+    /** プロセス名 */
+    comm: string;
+    /** 状態コード */
+    state: string;
+    /** 端末の名前。端末を持たない場合は ? */
+    tty: string;
+    /** 端末のフォアグラウンドプロセスグループに属しているかどうか */
+    foreground: boolean;
+    /** CPU を使用した時間 (ミリ秒) */
+    cpuTime: number;
+    /** 生成された時刻 (UNIX 時間のミリ秒) */
+    startTime: number;
+    /** コマンドライン。ゾンビプロセスの場合は空になります。 */
+    cmdline: string[];
+}
+
+/** /proc の stat ファイルで使用されるクロック刻み数 */
+const CLOCK_TICKS = 100;
+
+/** コマンドが受け付けるオプションの宣言。parseOptions の引数として使用し、fsh の補完にも使用します。 */
+type OptionDeclaration = [oneHyphen: Parameters<typeof parseOptions>[1], twoHyphens?: Parameters<typeof parseOptions>[2]];
+
+/** コマンド名をキーとした、コマンドが受け付けるオプションの宣言 */
+const COMMAND_OPTIONS: Record<string, OptionDeclaration> = {
+    pwd: [["-P", "-L"]],
+    cat: [
+        ["-n", "-b", "-s", "-E", "-T", "-v", "-u", "A", "-e", "-t"],
+        ["--help", "--version", "--number-nonblank", "--show-ends", "--number", "--squeeze-blank", "--show-tabs","--show-nonprinting", "--show-all"]
+    ],
+    grep: [
+        ["-i", "-v", "-n", "-c"],
+        ["--help", "--ignore-case", "--invert-match", "--line-number", "--count"]
+    ],
+    ps: [["-e", "-A", "-f"]],
+    top: [["-b", { id: "-d", needsArgument: true }, { id: "-n", needsArgument: true }]],
+    script: [["-a", "-q", { id: "-c", needsArgument: true }]],
+    cp: [["-r", "-R", "-p"], ["--recursive", "--preserve"]],
+    mv: [["-f"]],
+    ln: [["-s", "-f"], ["--symbolic", "--force"]],
+    touch: [["-c"], ["--no-create"]],
+    mount: [[{ id: "-t", needsArgument: true }, { id: "-o", needsArgument: true }]],
+    tar: [["-c", "-x", "-t", "-v", { id: "-f", needsArgument: true }, { id: "-C", needsArgument: true }]],
+    useradd: [["-m", { id: "-u", needsArgument: true }, { id: "-g", needsArgument: true }, { id: "-G", needsArgument: true }, { id: "-d", needsArgument: true }, { id: "-s", needsArgument: true }, { id: "-c", needsArgument: true }]]
+};
+
+/** fsh が保持する入力履歴の最大数 */
+const HISTORY_SIZE = 1000;
+
+/** init がこの時間 (ミリ秒) より短く終了したエントリを、再起動が速すぎるものとして数える */
+const RESPAWN_INTERVAL = 1000;
+/** 再起動が速すぎるエントリを停止するまでの連続回数 */
+const RESPAWN_LIMIT = 10;
+/** 再起動が速すぎるエントリを停止する時間 (ミリ秒) */
+const RESPAWN_DISABLE_TIME = 300000;
+
+/** /proc から全プロセスの情報を読み込みます。読み込み中に終了したプロセスは含まれません。 */
+async function readProcesses(process: Process): Promise<ProcessInfo[]> {
+    const uptime = parseFloat(await readTextFile(process, "/proc/uptime"));
+    const bootTime = Date.now() - uptime * 1000;
+
+    const processes: ProcessInfo[] = [];
+    for (const pid of process.readdir("/proc").filter(n => /^\d+$/.test(n)).map(Number).sort((a, b) => a - b)) {
+        try {
+            const status = await readTextFile(process, `/proc/${pid}/status`);
+            const stat = await readTextFile(process, `/proc/${pid}/stat`);
+            const cmdline = await readTextFile(process, `/proc/${pid}/cmdline`);
+
+            // NOTE: プロセス名は空白や括弧を含む可能性があるため、最後の ) で区切る
+            const fields = stat.slice(stat.lastIndexOf(")") + 2).trim().split(" ");
+            const tty = parseInt(fields[4]);
+            processes.push({
+                pid,
+                ppid: parseInt(fields[1]),
+                pgid: parseInt(fields[2]),
+                uid: parseInt(status.match(/^Uid:\t(\d+)/m)![1]),
+                comm: stat.slice(stat.indexOf("(") + 1, stat.lastIndexOf(")")),
+                state: fields[0],
+                tty: tty >> 8 === 4 ? `tty${tty & 0xff}` : tty >> 8 === 136 ? `pts/${tty & 0xff}` : "?",
+                foreground: parseInt(fields[5]) === parseInt(fields[2]),
+                cpuTime: parseInt(fields[11]) * 1000 / CLOCK_TICKS,
+                startTime: bootTime + parseInt(fields[19]) * 1000 / CLOCK_TICKS,
+                cmdline: cmdline.split("\0").slice(0, -1)
+            });
+        } catch (e) {
+            if (!(e instanceof ENOENT)) throw e;
+        }
+    }
+    return processes;
+}
+/** 時間を [DD-]HH:MM:SS 形式に変換します。 */
+function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const days = Math.floor(seconds / 86400);
+    const time = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60].map(n => n.toString().padStart(2, "0")).join(":");
+    return days > 0 ? `${days}-${time}` : time;
+}
+/** 時刻を HH:MM 形式に変換します。 */
+function formatClock(time: number): string {
+    const date = new Date(time);
+    return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+}
+
+/** 端末のエコーを無効にして 1 行を読み込みます。標準入力が端末でない場合はそのまま読み込みます。 */
+async function readPassword(process: Process, lib: ProgramLibrary): Promise<string> {
+    let termios: Termios | null = null;
+    try {
+        termios = process.tcgetattr(0);
+    } catch (e) {
+        if (!(e instanceof ENOTTY)) throw e;
+    }
+
+    if (termios) process.tcsetattr(0, { ...termios, lflag: termios.lflag & ~LocalFlag.ECHO });
+    try {
+        return (await lib.io.read(0)).trimEnd();
+    } finally {
+        if (termios) process.tcsetattr(0, termios);
+    }
+}
+
+/** シグナル名 (SIG は省略可能) もしくはシグナル番号からシグナルを取得します。 */
+function parseSignal(name: string): Signal | undefined {
+    if (/^\d+$/.test(name)) {
+        return Signal[parseInt(name)] !== undefined ? parseInt(name) : undefined;
+    }
+
+    const key = name.toUpperCase().replace(/^(SIG)?/, "SIG");
+    return key in Signal ? Signal[key as keyof typeof Signal] : undefined;
+}
+
+/** システムコールのエラーを、コマンドが表示するメッセージに変換します。対応していないエラーはそのまま投げ直します。 */
+function errorMessage(e: unknown): string {
+    if (e instanceof ENOENT) return "そのようなファイルやディレクトリはありません";
+    if (e instanceof EACCES) return "許可がありません";
+    if (e instanceof EPERM) return "許可されていない操作です";
+    if (e instanceof EISDIR) return "ディレクトリです";
+    if (e instanceof ENOTDIR) return "ディレクトリではありません";
+    if (e instanceof EEXIST) return "ファイルが存在します";
+    if (e instanceof ENOTEMPTY) return "ディレクトリが空ではありません";
+    if (e instanceof EINVAL) return "無効な引数です";
+    if (e instanceof EXDEV) return "無効なクロスデバイスリンクです";
+    if (e instanceof EROFS) return "読み込み専用ファイルシステムです";
+    if (e instanceof EBUSY) return "デバイスもしくはリソースがビジー状態です";
+    if (e instanceof ENODEV) return "そのようなデバイスはありません";
+    if (e instanceof ENOTTY) return "端末に対する不適切な ioctl です";
+    if (e instanceof ELOOP) return "シンボリックリンクの階層が多すぎます";
+    throw e;
+}
+
+/**
+ * chmod のモード指定 (8 進数もしくは u+x,go-w のような記号表記) を解釈します。
+ * @param spec モード指定
+ * @param mode 変更前のアクセス権限
+ * @param isDirectory 対象がディレクトリかどうか (X の解釈に使用します)
+ * @returns 変更後のアクセス権限、不正な指定の場合は null
+ */
+function parseMode(spec: string, mode: number, isDirectory: boolean): number | null {
+    if (/^[0-7]{1,4}$/.test(spec)) return parseInt(spec, 8);
+
+    for (const clause of spec.split(",")) {
+        const match = clause.match(/^([ugoa]*)([-+=])([rwxXst]*)$/);
+        if (!match) return null;
+
+        const [, who, operator, perms] = match;
+        const targets = who === "" || who.includes("a") ? "ugo" : who;
+        const executable = isDirectory || (mode & 0o111) !== 0;
+
+        let bits = 0;
+        for (const target of targets) {
+            const shift = target === "u" ? 6 : target === "g" ? 3 : 0;
+            if (perms.includes("r")) bits |= 0o4 << shift;
+            if (perms.includes("w")) bits |= 0o2 << shift;
+            if (perms.includes("x") || (perms.includes("X") && executable)) bits |= 0o1 << shift;
+            if (perms.includes("s") && target === "u") bits |= 0o4000;
+            if (perms.includes("s") && target === "g") bits |= 0o2000;
+            if (perms.includes("t") && target === "o") bits |= 0o1000;
+        }
+
+        // NOTE: = の場合は、対象の権限をすべて取り除いてから設定する
+        const mask = [...targets].reduce((m, t) => m | (t === "u" ? 0o4700 : t === "g" ? 0o2070 : 0o1007), 0);
+        mode = operator === "+" ? mode | bits : operator === "-" ? mode & ~bits : (mode & ~mask) | bits;
+    }
+    return mode & 0o7777;
+}
+
+/**
+ * ShalfeltOS を生成します。
+ * @param terminal /dev/tty1 に接続するホストの端末 (createXtermBackend・createNodeTerminalBackend・createMemoryTerminal で作成します)
+ */
+export default function ShalfeltOS(terminal: TerminalBackend): { options: EmulatorInit, storage: File[] } {
+    /** パスワードの最終変更日 (1970/1/1 からの日数) */
+    const lastPasswordChange = Math.floor(Date.now() / 86400000);
+
+    /** ホストの端末に接続された仮想コンソール */
+    const tty1 = createTtyDevice("tty1");
+    tty1.discipline.connect(terminal);
+
+    /** 2 つ目の仮想コンソール。Emulator.connectTerminal でホストの端末を接続します。 */
+    const tty2 = createTtyDevice("tty2");
 
-/** ShalfeltOS を生成します。 */
-export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit, storage: File[] } {
     return {
         options: {
             info: {
                 nodename: "kotonepc",
                 os_name: "ShalfeltOS",
                 os_version: "0.1.0"
-            }
+            },
+            mounts: [
+                { source: "tmpfs", target: "/tmp", type: "tmpfs" }
+            ]
         },
         storage: [
             {
@@ -21,46 +306,19 @@ export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit,
                 type: "directory",
                 owner: 0,
                 group: 0,
-                mode: 0o777,
+                mode: 0o755,
                 deleted: false,
                 children: [
+                    tty1,
+                    tty2,
                     {
-                        name: "tty1",
-                        type: "device",
-                        owner: 0,
-                        group: 0,
-                        mode: 0o777,
-                        deleted: false,
-
-                        read() {
-                            return new Promise(r => terminal.onData(data => r(new TextEncoder().encode(data))));
-                        },
-                        write(data) {
-                            const str = new TextDecoder("utf-8").decode(data)
-                                .replaceAll("\u007F", "\b \b");
-
-                            if (str.includes("\x07")) {
-                                console.log("Ring!");
-                            }
-
-                            // TODO: 2バイト文字の削除対応
-                            terminal.write(str);
-                        }
-                    },
-                    {
-                        name: "tty2",
-                        type: "device",
+                        name: "ptmx",
+                        type: "symlink",
                         owner: 0,
                         group: 0,
                         mode: 0o777,
                         deleted: false,
-
-                        read() {
-                            return new Promise(r => process.stdin.once("data", data => r(new Uint8Array(data))));
-                        },
-                        write(data) {
-                            process.stdout.write(new Uint8Array(data));
-                        }
+                        target: "pts/ptmx"
                     }
                 ]
             },
@@ -69,7 +327,7 @@ export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit,
                 type: "directory",
                 owner: 0,
                 group: 0,
-                mode: 0o777,
+                mode: 0o755,
                 deleted: false,
                 children: []
             },
@@ -78,7 +336,7 @@ export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit,
                 type: "directory",
                 owner: 0,
                 group: 0,
-                mode: 0o777,
+                mode: 0o700,
                 deleted: false,
                 children: [
                     {
@@ -86,7 +344,7 @@ export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit,
                         type: "regular-file",
                         owner: 0,
                         group: 0,
-                        mode: 0o777,
+                        mode: 0o644,
                         deleted: false,
                         data: new Uint8Array([97, 98, 99, 100, 101, 102, 103])
                     },
@@ -95,7 +353,7 @@ export default function ShalfeltOS(terminal: Terminal): { options: EmulatorInit,
                         type: "regular-file",
                         owner: 0,
                         group: 0,
-                        mode: 0o777,
+                        mode: 0o644,
                         deleted: false,
                         data: new TextEncoder().encode(`ankosoba
 
@@ -113,7 +371,7 @@ ankosoba`)
                         type: "executable-file",
                         owner: 0,
                         group: 0,
-                        mode: 0o777,
+                        mode: 0o755,
                         deleted: false,
                         protected: true,
 
@@ -121,7 +379,7 @@ ankosoba`)
                             // console.log(emu.processes);
                             console.log("Hello Kotonemu World!");
 
-                            await new Promise(r => setTimeout(r, 5000));
+                            await this.sleep(5000);
                         }
                     },
                     {
@@ -149,9 +407,93 @@ ankosoba`)
                 type: "directory",
                 owner: 0,
                 group: 0,
-                mode: 0o777,
+                mode: 0o755,
                 deleted: false,
-                children: []
+                children: [
+                    {
+                        name: "kotone",
+                        type: "directory",
+                        owner: 1000,
+                        group: 1000,
+                        mode: 0o755,
+                        deleted: false,
+                        children: []
+                    }
+                ]
+            },
+            {
+                name: "etc",
+                type: "directory",
+                owner: 0,
+                group: 0,
+                mode: 0o755,
+                deleted: false,
+                children: [
+                    {
+                        name: "passwd",
+                        type: "regular-file",
+                        owner: 0,
+                        group: 0,
+                        mode: 0o644,
+                        deleted: false,
+                        data: new TextEncoder().encode(
+`root:x:0:0:root:/root:/bin/sh
+kotone:x:1000:1000:Kotonone:/home/kotone:/bin/sh
+`)
+                    },
+                    {
+                        name: "group",
+                        type: "regular-file",
+                        owner: 0,
+                        group: 0,
+                        mode: 0o644,
+                        deleted: false,
+                        data: new TextEncoder().encode(
+`root:x:0:
+wheel:x:10:kotone
+kotone:x:1000:
+`)
+                    },
+                    {
+                        name: "shadow",
+                        type: "regular-file",
+                        owner: 0,
+                        group: 0,
+                        mode: 0o600,
+                        deleted: false,
+                        data: new TextEncoder().encode(
+`root:${hashPassword("root")}:${lastPasswordChange}:0:99999:7:::
+kotone:${hashPassword("kotone")}:${lastPasswordChange}:0:99999:7:::
+`)
+                    },
+                    {
+                        name: "inittab",
+                        type: "regular-file",
+                        owner: 0,
+                        group: 0,
+                        mode: 0o644,
+                        deleted: false,
+                        data: new TextEncoder().encode(
+`# id:runlevels:action:process
+1:2345:respawn:/sbin/getty tty1
+2:2345:respawn:/sbin/getty tty2
+`)
+                    },
+                    {
+                        name: "issue",
+                        type: "regular-file",
+                        owner: 0,
+                        group: 0,
+                        mode: 0o644,
+                        deleted: false,
+                        data: new TextEncoder().encode(
+`
+\\s \\v
+Copyright (C) 2024 Kotonone and ShalfeltOS contributors
+
+`)
+                    }
+                ]
             },
             {
                 name: "bin",
@@ -176,7 +518,7 @@ ankosoba`)
                 type: "directory",
                 owner: 0,
                 group: 0,
-                mode: 0o777,
+                mode: 0o755,
                 deleted: false,
                 children: [
                     {
@@ -184,7 +526,7 @@ ankosoba`)
                         type: "directory",
                         owner: 0,
                         group: 0,
-                        mode: 0o777,
+                        mode: 0o755,
                         deleted: false,
                         children: [
                             {
@@ -192,7 +534,7 @@ ankosoba`)
                                 type: "executable-file",
                                 owner: 0,
                                 group: 0,
-                                mode: 0o777,
+                                mode: 0o755,
                                 deleted: false,
                                 protected: true,
 
@@ -200,19 +542,52 @@ ankosoba`)
                                     const info = this.uname();
 
                                     lib.io.write(`${info.nodename} login: `);
-                                    const userId = (await lib.io.read()).trimEnd();
+                                    const input = await lib.io.read(0, { newline: true });
+                                    if (input === "") {
+                                        lib.io.write("\n");
+                                        return 1;
+                                    }
+                                    const userId = input.trimEnd();
 
                                     lib.io.write("Password: ");
-                                    const password = (await lib.io.read(0, StdReadFlag.READ_LINE)).trimEnd();
+                                    const password = await readPassword(this, lib);
+
+                                    const user = (await readPasswd(this)).find(u => u.name === userId);
+                                    const hashed = user?.password === "x"
+                                        ? (await readDatabase(this, "/etc/shadow")).find(([name]) => name === userId)?.[1]
+                                        : user?.password;
 
-                                    if (userId === "a" && password === "b") {
-                                        lib.io.write("Last login: Wed Dec  9 04:09:57 on tty1\n");
+                                    if (user && hashed !== undefined && verifyPassword(password, hashed)) {
+                                        const groups = (await readGroup(this)).filter(g => g.members.includes(user.name)).map(g => g.gid);
+                                        lib.io.write(`Last login: Wed Dec  9 04:09:57 on ${this.tty.replace(/^\/dev\//, "")}\n`);
 
                                         await this.spawn(async function () {
-                                            await this.exec("/bin/sh");
+                                            // NOTE: ログインシェルを新しいプロセスグループとして端末のフォアグラウンドにする
+                                            this.setpgid(0, 0);
+                                            this.tcsetpgrp(0, this.getpgrp());
+
+                                            this.setgroups(groups);
+                                            this.setgid(user.gid);
+                                            this.setuid(user.uid);
+
+                                            let home = user.home;
+                                            try {
+                                                this.access(home, AccessFlag.EXECUTE);
+                                            } catch {
+                                                lib.io.write(`ディレクトリがありません。HOME=/ としてログインします\n`);
+                                                home = "/";
+                                            }
+
+                                            await this.exec(user.shell, [], {
+                                                PWD: home,
+                                                HOME: home,
+                                                USER: user.name,
+                                                LOGNAME: user.name,
+                                                SHELL: user.shell
+                                            });
                                         });
                                     } else {
-                                        await new Promise(r => setTimeout(r, 5000));
+                                        await this.sleep(5000);
                                         lib.io.write("Login incorrect\n\n");
 
                                         // TODO: current process path
@@ -235,116 +610,553 @@ ankosoba`)
                                 type: "executable-file",
                                 owner: 0,
                                 group: 0,
-                                mode: 0o777,
+                                mode: 0o755,
                                 deleted: false,
                                 protected: true,
 
                                 async onStart(lib) {
                                     const info = this.uname();
 
-                                    while (true) {
-                                        lib.io.write(`[kotone@${info.nodename} ${basename(this.env.PWD)}]$ `);
+                                    /** 指定したプロセスのファイルディスクリプタに書き込む関数を生成します。 */
+                                    const writer = (process: Process) => (val: string | Uint8Array, fd: number = 1) => {
+                                        process.write(fd, typeof val === "string" ? new TextEncoder().encode(val) : val);
+                                    };
+
+                                    /** 組み込みコマンドの一覧 */
+                                    const builtins = ["cd", "pwd", "clear", "trap", "history", "exit"];
+
+                                    /** 入力履歴 (古いものから順) */
+                                    const history: string[] = [];
+                                    /** 入力履歴を保存するファイル */
+                                    const historyFile = join(this.env.HOME ?? "/", ".fsh_history");
+
+                                    /** 最後に実行したコマンドの終了ステータス */
+                                    let status = 0;
 
-                                        const text = (await lib.io.read()).trimEnd();
-                                        if (text.trim() === "") continue;
+                                    /** $0 とそれ以降の位置パラメータ。-c の場合はコマンドの後の引数、スクリプトの場合はスクリプト名とその引数になる */
+                                    const [scriptName, ...positional] = this.args[0] === "-c" ? this.args.slice(2) : this.args.length > 0 ? this.args : [this.name];
 
-                                        const command = split(text).filter(a => a !== "");
-                                        if (command.length < 1) continue;
+                                    /** trap で設定されたコマンド */
+                                    const traps: Partial<Record<Signal, string>> = {};
 
-                                        // TODO: user directory "~"
+                                    /**
+                                     * 組み込みコマンドを実行します。
+                                     * @returns 終了ステータス
+                                     */
+                                    const runBuiltin = function (this: Process, command: string[], write: typeof lib.io.write): number {
                                         // TODO: cd.sh: builtin cd "$@"
                                         if (command[0] === "cd") {
                                             if (command.length === 1) {
-                                                this.env.PWD = lib.path.absolute("~");
+                                                this.env.PWD = this.env.HOME ?? "/";
                                             } else if (command.length === 2) {
                                                 try {
                                                     const stat = this.stat(command[1]);
                                                     if (stat.mode & StatMode.IFDIR) {
+                                                        this.access(command[1], AccessFlag.EXECUTE);
                                                         this.env.PWD = lib.path.absolute(command[1]);
                                                     } else {
-                                                        lib.io.write(`-fsh: ${command[0]}: ${command[1]}: ディレクトリではありません\n`, 2);
+                                                        write(`-fsh: ${command[0]}: ${command[1]}: ディレクトリではありません\n`, 2);
+                                                        return 1;
+                                                    }
+                                                } catch (e) {
+                                                    if (e instanceof EACCES) {
+                                                        write(`-fsh: ${command[0]}: ${command[1]}: 許可がありません\n`, 2);
+                                                        return 1;
+                                                    } else {
+                                                        write(`-fsh: ${command[0]}: ${command[1]}: そのようなファイルやディレクトリはありません\n`, 2);
+                                                        return 1;
                                                     }
-                                                } catch {
-                                                    lib.io.write(`-fsh: ${command[0]}: ${command[1]}: そのようなファイルやディレクトリはありません\n`, 2);
                                                 }
                                             } else {
-                                                lib.io.write(`-fsh: ${command[0]}: 引数が多すぎます\n`, 2);
+                                                write(`-fsh: ${command[0]}: 引数が多すぎます\n`, 2);
+                                                return 1;
                                             }
                                         } else if (command[0] === "pwd") {
                                             if (command.length === 1) {
-                                                lib.io.write(this.env.PWD + "\n", 2);
+                                                write(this.env.PWD + "\n", 1);
                                             } else if (command.length >= 2) {
-                                                let options = parseOptions(command.slice(1),["-P","-L"])
+                                                let options = parseOptions(command.slice(1), ...COMMAND_OPTIONS.pwd)
 
                                                 if (options.invalidOption) {
-                                                    lib.io.write(`-fsh: ${command[0]}: ${options.invalidOption}: 無効なオプションです\n`, 2);
-                                                    lib.io.write(`${command[0]}: 使用法: pwd [-LP]\n`, 2);
+                                                    write(`-fsh: ${command[0]}: ${options.invalidOption}: 無効なオプションです\n`, 2);
+                                                    write(`${command[0]}: 使用法: pwd [-LP]\n`, 2);
+                                                    return 2;
                                                 }
                                                 else {
                                                     if (options.index["-P"] <= options.index["-L"]) {
-                                                        lib.io.write(this.env.PWD + "\n", 1);
+                                                        write(this.env.PWD + "\n", 1);
                                                     } else {
-                                                        lib.io.write(this.env.PWD + "\n", 1); // TODO: -P option
+                                                        write(this.env.PWD + "\n", 1); // TODO: -P option
                                                     }
                                                 }
                                             }
                                         } else if (command[0] === "clear") {
                                             if (command.length === 1) {
-                                                lib.io.write("\x1b[2J", 1);
-                                                lib.io.write("\x1b[H", 1);
+                                                write("\x1b[2J", 1);
+                                                write("\x1b[H", 1);
                                             } else if (command.length >= 2) {
                                                 // TODO: Support for options...?
-                                                lib.io.write(`使用例: clear\n`, 2);/*
-                                                let options = parseOptions(command.slice(1),["-P","-L"])
+                                                write(`使用例: clear\n`, 2);
+                                                return 1;/*
+                                                let options = parseOptions(command.slice(1), ...COMMAND_OPTIONS.pwd)
 
                                                 if (options.invalidOption) {
-                                                    lib.io.write(`-fsh: ${command[0]}: ${options.invalidOption}: 無効なオプションです\n`, 2);
-                                                    lib.io.write(`${command[0]}: 使用法: pwd [-LP]\n`, 2);
+                                                    write(`-fsh: ${command[0]}: ${options.invalidOption}: 無効なオプションです\n`, 2);
+                                                    write(`${command[0]}: 使用法: pwd [-LP]\n`, 2);
                                                 }
                                                 else {
                                                     if (options.index["-P"] <= options.index["-L"]) {
-                                                        lib.io.write(this.env.PWD + "\n", 1);
+                                                        write(this.env.PWD + "\n", 1);
                                                     } else {
-                                                        lib.io.write(this.env.PWD + "\n", 1); // TODO: -P option
+                                                        write(this.env.PWD + "\n", 1); // TODO: -P option
                                                     }
                                                 }*/
                                             }
+                                        } else if (command[0] === "trap") {
+                                            if (command.length === 1) {
+                                                for (const [sig, action] of Object.entries(traps)) {
+                                                    write(`trap -- '${action}' ${Signal[Number(sig)]}\n`, 1);
+                                                }
+                                            } else if (command[1] === "-l") {
+                                                write(Object.values(Signal).filter(v => typeof v === "number").map(v => `${v}) ${Signal[v as Signal]}`).join(" ") + "\n", 1);
+                                            } else {
+                                                // NOTE: 最初の引数がシグナル名の場合は、動作の変更ではなく既定の動作への復元として扱う
+                                                const action = parseSignal(command[1]) !== undefined ? "-" : command[1];
+                                                let failed = false;
+                                                for (const name of command.slice(action === command[1] ? 2 : 1)) {
+                                                    const sig = parseSignal(name);
+                                                    if (sig === undefined) {
+                                                        write(`-fsh: trap: ${name}: 無効なシグナル指定です\n`, 2);
+                                                        failed = true;
+                                                        continue;
+                                                    }
+
+                                                    try {
+                                                        if (action === "-") {
+                                                            delete traps[sig];
+                                                            // NOTE: 対話シェルは SIGINT で終了しない
+                                                            if (sig !== Signal.SIGINT) this.signal(sig, "default");
+                                                        } else if (action === "") {
+                                                            traps[sig] = action;
+                                                            this.signal(sig, "ignore");
+                                                        } else {
+                                                            traps[sig] = action;
+                                                            if (sig !== Signal.SIGINT) this.signal(sig, () => execute(action));
+                                                        }
+                                                    } catch (e) {
+                                                        if (e instanceof EINVAL) {
+                                                            write(`-fsh: trap: ${name}: 捕捉できないシグナルです\n`, 2);
+                                                            failed = true;
+                                                        } else {
+                                                            throw e;
+                                                        }
+                                                    }
+                                                }
+                                                if (failed) return 1;
+                                            }
+                                        } else if (command[0] === "history") {
+                                            if (command[1] === "-c") {
+                                                // NOTE: 保存した履歴も消去し、次回のログイン時に復元されないようにする
+                                                history.length = 0;
+                                                try {
+                                                    this.close(this.open(historyFile, OpenFlag.WRITE | OpenFlag.TRUNCATE));
+                                                } catch {}
+                                                return 0;
+                                            }
+                                            if (command.length > 2) {
+                                                write(`-fsh: ${command[0]}: 引数が多すぎます\n`, 2);
+                                                return 1;
+                                            }
+                                            if (command.length === 2 && !/^\d+$/.test(command[1])) {
+                                                write(`-fsh: ${command[0]}: ${command[1]}: 数字の引数が必要です\n`, 2);
+                                                return 1;
+                                            }
+
+                                            const count = command.length === 2 ? Math.min(parseInt(command[1]), history.length) : history.length;
+                                            history.slice(history.length - count).forEach((line, i) => {
+                                                write(`${(history.length - count + i + 1).toString().padStart(5)}  ${line}\n`, 1);
+                                            });
+                                        } else if (command[0] === "exit") {
+                                            if (command.length > 2) {
+                                                write(`-fsh: ${command[0]}: 引数が多すぎます\n`, 2);
+                                                return 1;
+                                            }
+                                            if (command.length === 2 && !/^-?\d+$/.test(command[1])) {
+                                                write(`-fsh: ${command[0]}: ${command[1]}: 数字の引数が必要です\n`, 2);
+                                                this.exit(2);
+                                            }
+
+                                            // NOTE: 引数を省略した場合は直前のコマンドの終了ステータスで終了する
+                                            this.exit(command.length === 2 ? parseInt(command[1]) : status);
+                                        }
+
+                                        return 0;
+                                    };
+
+                                    /** リダイレクト */
+                                    type Redirection = { fd: number, operator: string, target: string };
+
+                                    /**
+                                     * コマンドからリダイレクトを取り除きます。
+                                     * @returns リダイレクトを取り除いたコマンドとリダイレクトの一覧、構文エラーの場合は null
+                                     */
+                                    const parseRedirections = (tokens: string[]): { command: string[], redirections: Redirection[] } | null => {
+                                        const command: string[] = [];
+                                        const redirections: Redirection[] = [];
+
+                                        for (let i = 0; i < tokens.length; i++) {
+                                            // NOTE: [n]> [n]>> [n]< [n]>&m [n]<&m の形式を認識する
+                                            const match = tokens[i].match(/^(\d*)(>>|>&|<&|>|<)(.*)$/s);
+                                            if (!match) {
+                                                command.push(tokens[i]);
+                                                continue;
+                                            }
+
+                                            const [, fd, operator, rest] = match;
+                                            const target = rest !== "" ? rest : tokens[++i];
+                                            if (target === undefined) {
+                                                lib.io.write(`-fsh: 予期しないトークン \`newline' 周辺に構文エラーがあります\n`, 2);
+                                                return null;
+                                            }
+
+                                            redirections.push({ fd: fd !== "" ? parseInt(fd) : operator.startsWith("<") ? 0 : 1, operator, target });
+                                        }
+
+                                        return { command, redirections };
+                                    };
+
+                                    /**
+                                     * プロセスのファイルディスクリプタにリダイレクトを適用します。
+                                     * @returns 適用に成功したかどうか
+                                     */
+                                    const applyRedirections = function (this: Process, redirections: Redirection[]): boolean {
+                                        const write = writer(this);
+
+                                        for (const { fd, operator, target } of redirections) {
+                                            try {
+                                                if (operator === ">&" || operator === "<&") {
+                                                    if (!/^\d+$/.test(target)) throw new EBADFD();
+                                                    this.dup2(parseInt(target), fd);
+                                                } else {
+                                                    const flags =
+                                                        operator === "<" ? OpenFlag.READ :
+                                                        operator === ">>" ? OpenFlag.WRITE | OpenFlag.APPEND :
+                                                        OpenFlag.WRITE | OpenFlag.TRUNCATE;
+
+                                                    const newFd = this.open(target, flags);
+                                                    this.dup2(newFd, fd);
+                                                    this.close(newFd);
+                                                }
+                                            } catch (e) {
+                                                if (e instanceof ENOENT) {
+                                                    write(`-fsh: ${target}: そのようなファイルやディレクトリはありません\n`, 2);
+                                                } else if (e instanceof EISDIR) {
+                                                    write(`-fsh: ${target}: ディレクトリです\n`, 2);
+                                                } else if (e instanceof EBADFD) {
+                                                    write(`-fsh: ${target}: 不正なファイル記述子です\n`, 2);
+                                                } else if (e instanceof EACCES) {
+                                                    write(`-fsh: ${target}: 許可がありません\n`, 2);
+                                                } else if (e instanceof EROFS) {
+                                                    write(`-fsh: ${target}: 読み込み専用ファイルシステムです\n`, 2);
+                                                } else {
+                                                    throw e;
+                                                }
+                                                return false;
+                                            }
+                                        }
+                                        return true;
+                                    };
+
+                                    /** 外部コマンドを現在のプロセスで実行します。実行できなかった場合もプロセスを終了するため、戻りません。 */
+                                    const runCommand = async function (this: Process, command: string[]): Promise<void> {
+                                        const write = writer(this);
+
+                                        // NOTE: / を含むコマンドは PATH から探さずにそのパス名のファイルを実行する
+                                        let binaryFile: string | null = command[0].includes("/") ? command[0] : null;
+                                        for (const path of binaryFile ? [] : (this.env.PATH ?? "").split(":")) {
+                                            try {
+                                                this.stat(binaryFile = join(path, command[0]));
+                                                break;
+                                            } catch (e) {
+                                                if (e instanceof ENOENT || e instanceof EACCES) {
+                                                    binaryFile = null;
+                                                } else {
+                                                    throw e;
+                                                }
+                                            }
+                                        }
+
+                                        try {
+                                            if (!binaryFile) throw new ENOENT(command[0]);
+
+                                            const stat = this.stat(binaryFile);
+                                            if (stat.mode & StatMode.IFDIR) throw new EISDIR(command[0]);
+
+                                            await this.exec(binaryFile, command.slice(1));
+                                        } catch (e) {
+                                            // NOTE: コマンドが見つからない場合は 127、実行できない場合は 126 で終了する
+                                            if (e instanceof ENOENT) {
+                                                write(`-fsh: ${command[0]}: コマンドが見つかりません\n`, 2);
+                                                this.exit(127);
+                                            } else if (e instanceof ELIBBAD || e instanceof ENOEXEC) {
+                                                write(`-fsh: ${command[0]}: 実行形式エラー\n`, 2);
+                                                this.exit(126);
+                                            } else if (e instanceof ELOOP) {
+                                                write(`-fsh: ${command[0]}: インタプリタの階層が深すぎます\n`, 2);
+                                                this.exit(126);
+                                            } else if (e instanceof EISDIR) {
+                                                write(`-fsh: ${command[0]}: ディレクトリです\n`, 2);
+                                                this.exit(126);
+                                            } else if (e instanceof EACCES) {
+                                                write(`-fsh: ${command[0]}: 許可がありません\n`, 2);
+                                                this.exit(126);
+                                            } else if (e instanceof EPIPE) {
+                                                // NOTE: パイプの読み込み側が閉じられたため終了する
+                                                this.exit(1);
+                                            }
+                                            throw e;
+                                        }
+                                    };
+
+                                    /** 端末のフォアグラウンドプロセスグループを設定します。標準入力が端末でない場合は何もしません。 */
+                                    const setForeground = (pgid: number) => {
+                                        try {
+                                            this.tcsetpgrp(0, pgid);
+                                        } catch (e) {
+                                            if (!(e instanceof ENOTTY)) throw e;
+                                        }
+                                    };
+
+                                    /** コマンドラインを実行します。 */
+                                    const execute = async (text: string): Promise<void> => {
+                                        if (text.trim() === "") return;
+
+                                        // NOTE: 先頭の ~ をホームディレクトリに、$? を直前のコマンドの終了ステータスに、$0 ~ $9 と $# を位置パラメータに展開する
+                                        const expand = (token: string) => (token === "~" || token.startsWith("~/") ? (this.env.HOME ?? "") + token.slice(1) : token)
+                                            .replace(/\$([0-9#?])/g, (_, name: string) =>
+                                                name === "?" ? status.toString() :
+                                                name === "#" ? positional.length.toString() :
+                                                name === "0" ? scriptName ?? this.name :
+                                                positional[Number(name) - 1] ?? ""
+                                            );
+
+                                        const pipeline = splitUnquoted(text, "|").map(s => parseRedirections(split(s).filter(a => a !== "").map(expand)));
+                                        if (pipeline.some(stage => stage === null)) {
+                                            status = 2;
+                                            return;
+                                        }
+                                        if (pipeline.some(stage => stage!.command.length < 1)) {
+                                            if (pipeline.length > 1) {
+                                                lib.io.write(`-fsh: 予期しないトークン \`|' 周辺に構文エラーがあります\n`, 2);
+                                                status = 2;
+                                            }
+                                            return;
+                                        }
+
+                                        if (pipeline.length === 1 && builtins.includes(pipeline[0]!.command[0])) {
+                                            // NOTE: 組み込みコマンドはシェル自身で実行するため、リダイレクト前の標準入出力を退避して後で復元する
+                                            const { command, redirections } = pipeline[0]!;
+                                            const saved = [0, 1, 2].map(fd => this.dup(fd));
+                                            try {
+                                                status = applyRedirections.call(this, redirections) ? runBuiltin.call(this, command, lib.io.write) : 1;
+                                            } finally {
+                                                saved.forEach((fd, i) => {
+                                                    this.dup2(fd, i);
+                                                    this.close(fd);
+                                                });
+                                            }
+                                            return;
+                                        }
+
+                                        // NOTE: 各コマンドを、前後のコマンドとパイプで接続した子プロセスとして実行する
+                                        // NOTE: パイプラインは一つのプロセスグループにまとめ、実行中は端末のフォアグラウンドにする
+                                        const processes: Promise<number>[] = [];
+                                        let input: number | undefined = undefined;
+                                        let pgid: number | undefined = undefined;
+                                        for (const [i, stage] of pipeline.entries()) {
+                                            const [nextInput, output] = i < pipeline.length - 1 ? this.pipe() : [undefined, undefined];
+                                            const { command, redirections } = stage!;
+
+                                            processes.push(this.spawn(async function () {
+                                                this.setpgid(0, pgid ?? 0);
+                                                pgid ??= this.id;
+                                                // NOTE: 無視するシグナル以外は既定の動作に戻す
+                                                if (traps[Signal.SIGINT] !== "") this.signal(Signal.SIGINT, "default");
+                                                for (const [sig, action] of Object.entries(traps)) {
+                                                    if (action !== "") this.signal(Number(sig), "default");
+                                                }
+
+                                                if (!applyRedirections.call(this, redirections)) return 1;
+
+                                                if (builtins.includes(command[0])) {
+                                                    return runBuiltin.call(this, command, writer(this));
+                                                } else {
+                                                    await runCommand.call(this, command);
+                                                }
+                                            }, { stdio: [input, output] }));
+
+                                            if (input !== undefined) this.close(input);
+                                            if (output !== undefined) this.close(output);
+                                            input = nextInput;
+                                        }
+
+                                        // NOTE: パイプラインの終了ステータスは最後のコマンドの終了ステータスとする
+                                        setForeground(pgid!);
+                                        try {
+                                            status = (await Promise.all(processes)).at(-1)!;
+                                        } finally {
+                                            setForeground(this.getpgrp());
+                                        }
+                                        if (status === 128 + Signal.SIGINT) lib.io.write("\n");
+                                    };
+
+                                    // NOTE: 引数が指定された場合は、対話せずに -c のコマンドもしくはスクリプトファイルを実行する
+                                    if (this.args.length > 0) {
+                                        let script: string;
+                                        if (this.args[0] === "-c") {
+                                            if (this.args.length < 2) {
+                                                lib.io.write("-fsh: -c: オプションには引数が必要です\n", 2);
+                                                return 2;
+                                            }
+                                            script = this.args[1];
                                         } else {
-                                            let binaryFile: string | null = null;
-                                            for (const path of (this.env.PATH ?? "").split(":")) {
+                                            try {
+                                                script = await readTextFile(this, this.args[0]);
+                                            } catch (e) {
+                                                lib.io.write(`-fsh: ${this.args[0]}: ${errorMessage(e)}\n`, 2);
+                                                return 127;
+                                            }
+                                        }
+
+                                        for (const line of script.split("\n")) {
+                                            // NOTE: # で始まる行 (#! 行を含む) はコメントとして無視する
+                                            if (line.trimStart().startsWith("#")) continue;
+                                            await execute(line.trimEnd());
+                                        }
+                                        return status;
+                                    }
+
+                                    // NOTE: 対話中の SIGINT では入力中の行を破棄する
+                                    this.signal(Signal.SIGINT, () => {
+                                        if (traps[Signal.SIGINT]) execute(traps[Signal.SIGINT]);
+                                    });
+
+                                    try {
+                                        history.push(...(await readTextFile(this, historyFile)).split("\n").filter(l => l !== "").slice(-HISTORY_SIZE));
+                                    } catch {}
+
+                                    /**
+                                     * 入力中の単語の補完候補を取得します。
+                                     * コマンドの位置では組み込みコマンドと PATH 上の実行ファイルを、- で始まる引数ではコマンドのオプションを、それ以外ではパスを補完します。
+                                     */
+                                    const complete = (line: string): Completion => {
+                                        // NOTE: パイプの後は新しいコマンドとして扱う
+                                        const segment = line.slice(line.lastIndexOf("|") + 1);
+                                        const word = segment.match(/\S*$/)![0];
+                                        const words = segment.slice(0, segment.length - word.length).split(/\s+/).filter(w => w !== "");
+                                        const start = line.length - word.length;
+
+                                        if (words.length === 0 && !word.includes("/")) {
+                                            const names = new Set(builtins.filter(b => b.startsWith(word)));
+                                            for (const directory of (this.env.PATH ?? "").split(":")) {
                                                 try {
-                                                    this.stat(binaryFile = join(path, command[0]));
-                                                    break;
-                                                } catch (e) {
-                                                    if (e instanceof ENOENT) {
-                                                        binaryFile = null;
-                                                    } else {
-                                                        throw e;
+                                                    for (const name of this.readdir(directory).filter(n => n.startsWith(word))) {
+                                                        const stat = this.stat(join(directory, name));
+                                                        if (!(stat.mode & StatMode.IFDIR) && stat.mode & 0o111) names.add(name);
                                                     }
-                                                }
+                                                } catch {}
                                             }
+                                            return { start, candidates: [...names].sort() };
+                                        }
 
-                                            await this.spawn(async function () {
+                                        if (words.length > 0 && word.startsWith("-")) {
+                                            const [oneHyphen = [], twoHyphens = []] = COMMAND_OPTIONS[basename(words[0])] ?? [];
+                                            const options = [...oneHyphen, ...twoHyphens].map(o => typeof o === "string" ? o : o.id);
+                                            return { start, candidates: options.filter(o => o.startsWith("-") && o.startsWith(word)) };
+                                        }
+
+                                        // NOTE: パスは最後の / より後をディレクトリ内のファイル名として補完し、シンボリックリンクはリンク先がディレクトリであればディレクトリとして扱う
+                                        const slash = word.lastIndexOf("/");
+                                        const directory = slash === -1 ? "." : word.slice(0, slash + 1);
+                                        const prefix = word.slice(slash + 1);
+                                        const resolved = directory.startsWith("~/") ? (this.env.HOME ?? "") + directory.slice(1) : directory;
+                                        const candidates: string[] = [];
+                                        try {
+                                            for (const name of this.readdir(resolved).filter(n => n.startsWith(prefix) && (prefix.startsWith(".") || !n.startsWith(".")))) {
+                                                let isDirectory = false;
                                                 try {
-                                                    if (!binaryFile) throw new ENOENT(command[0]);
+                                                    isDirectory = (this.stat(join(resolved, name)).mode & StatMode.IFDIR) !== 0;
+                                                } catch {}
+                                                candidates.push(isDirectory ? name + "/" : name);
+                                            }
+                                        } catch {}
+                                        return { start: start + slash + 1, candidates: candidates.sort() };
+                                    };
+
+                                    /**
+                                     * 行の中の !! を直前の入力に、!n を n 番目の入力に、!-n を n 個前の入力に展開します。
+                                     * @returns 展開した行、存在しない入力を参照した場合は null
+                                     */
+                                    const expandHistory = (text: string): string | null => {
+                                        let missing: string | null = null;
+                                        const expanded = text.replace(/!(!|-?\d+)/g, (reference, event: string) => {
+                                            const index =
+                                                event === "!" ? history.length - 1 :
+                                                event.startsWith("-") ? history.length + parseInt(event) :
+                                                parseInt(event) - 1;
+                                            if (history[index] === undefined) missing ??= reference;
+                                            return history[index] ?? reference;
+                                        });
 
-                                                    const stat = this.stat(binaryFile);
-                                                    if (stat.mode & StatMode.IFDIR) throw new EISDIR(command[0]);
+                                        if (missing !== null) {
+                                            lib.io.write(`-fsh: ${missing}: イベントが見つかりません\n`, 2);
+                                            return null;
+                                        }
+                                        return expanded;
+                                    };
 
-                                                    await this.exec(binaryFile, command.slice(1));
-                                                } catch (e) {
-                                                    if (e instanceof ENOENT) {
-                                                        lib.io.write(`-fsh: ${command[0]}: コマンドが見つかりません\n`, 2);
-                                                    } else if (e instanceof ELIBBAD) {
-                                                        lib.io.write(`-fsh: ${command[0]}: 実行形式エラー\n`, 2);
-                                                    } else if (e instanceof EISDIR) {
-                                                        lib.io.write(`-fsh: ${command[0]}: ディレクトリです\n`, 2);
-                                                    } else {
-                                                        throw e;
-                                                    }
-                                                }
-                                            });
+                                    while (true) {
+                                        const directory = this.env.PWD === this.env.HOME ? "~" : basename(this.env.PWD);
+                                        const prompt = `[${this.env.USER}@${info.nodename} ${directory}]${this.geteuid() === 0 ? "#" : "$"} `;
+
+                                        let text: string;
+                                        try {
+                                            text = await lib.io.read(0, { prompt, history, complete, newline: true });
+                                        } catch (e) {
+                                            if (e instanceof EINTR) {
+                                                lib.io.write("\n");
+                                                continue;
+                                            }
+                                            throw e;
+                                        }
+
+                                        // NOTE: ファイル終端 (Ctrl-D) では exit と同様に終了する
+                                        if (text === "") {
+                                            lib.io.write("exit\n");
+                                            return status;
+                                        }
+                                        text = text.trimEnd();
+
+                                        // NOTE: 履歴参照を展開した場合は、実行するコマンドを表示する
+                                        const expanded = expandHistory(text);
+                                        if (expanded === null) {
+                                            status = 1;
+                                            continue;
+                                        }
+                                        if (expanded !== text) lib.io.write(expanded + "\n");
+
+                                        // NOTE: 入力履歴は実行のたびにファイルへ追記し、同時にログインしている他のセッションの入力も次回のログイン時に復元されるようにする
+                                        if (expanded.trim() !== "") {
+                                            history.push(expanded);
+                                            if (history.length > HISTORY_SIZE) history.shift();
+                                            try {
+                                                const fd = this.open(historyFile, OpenFlag.WRITE | OpenFlag.APPEND, 0o600);
+                                                this.write(fd, new TextEncoder().encode(expanded + "\n").buffer);
+                                                this.close(fd);
+                                            } catch {}
                                         }
+
+                                        await execute(expanded);
                                     }
                                 }
                             },
@@ -353,21 +1165,18 @@ ankosoba`)
                                 type: "executable-file",
                                 owner: 0,
                                 group: 0,
-                                mode: 0o777,
+                                mode: 0o755,
                                 deleted: false,
                                 protected: true,
 
                                 async onStart(lib) {
                                     const args = this.args;
-                                    let options = parseOptions(
-                                        args,
-                                        ["-n", "-b", "-s", "-E", "-T", "-v", "-u", "A", "-e", "-t"],
-                                        ["--help", "--version", "--number-nonblank", "--show-ends", "--number", "--squeeze-blank", "--show-tabs","--show-nonprinting", "--show-all"]
-                                    );
+                                    let options = parseOptions(args, ...COMMAND_OPTIONS.cat);
 
                                     if (options.invalidOption) {
                                         lib.io.write(`cat: 無効なオプション -- ${options.invalidOption}\n`, 2);
                                         lib.io.write(`Try 'cat --help' for more information.\n`, 2);
+                                        return 1;
                                     }
                                     else {
                                         // TODO: Add options
@@ -449,15 +1258,22 @@ There is NO WARRANTY, to the extent permitted by law.
                                             }
                                             let readText = "";
                                             let error = false;
-                                            for (let fileName of args.slice(options.lastOptionIndex + 1)) {
+                                            const fileNames = args.slice(options.lastOptionIndex + 1);
+                                            for (let fileName of fileNames.length === 0 ? ["-"] : fileNames) {
                                                 try {
-                                                    const fd = this.open(fileName, OpenFlag.READ);
-                                                    if (options.lastOptionIndex === -1) {
-                                                        lib.io.write(new Uint8Array(await this.read(fd)), 1);
-                                                    } else {
-                                                        readText += new TextDecoder().decode(new Uint8Array(await this.read(fd)));
+                                                    // NOTE: "-" は標準入力を表す
+                                                    const fd = fileName === "-" ? 0 : this.open(fileName, OpenFlag.READ);
+                                                    while (true) {
+                                                        const data = new Uint8Array(await this.read(fd));
+                                                        if (data.byteLength === 0) break;
+
+                                                        if (options.lastOptionIndex === -1) {
+                                                            lib.io.write(data, 1);
+                                                        } else {
+                                                            readText += new TextDecoder().decode(data);
+                                                        }
                                                     }
-                                                    this.close(fd);
+                                                    if (fd !== 0) this.close(fd);
                                                 } catch (e) {
                                                     error = true;
                                                     if (e instanceof ENOENT) {
@@ -466,99 +1282,1391 @@ There is NO WARRANTY, to the extent permitted by law.
                                                     } else if (e instanceof EISDIR) {
                                                         lib.io.write(`cat: ${fileName}: ディレクトリです\n`, 2);
                                                         break;
+                                                    } else if (e instanceof EACCES) {
+                                                        lib.io.write(`cat: ${fileName}: 許可がありません\n`, 2);
+                                                        break;
+                                                    } else if (e instanceof ELOOP) {
+                                                        lib.io.write(`cat: ${fileName}: ${errorMessage(e)}\n`, 2);
+                                                        break;
                                                     } else {
                                                         throw e;
                                                     }
                                                 }
                                             }
 
-                                            if (!error) {
-                                                if (options.index["-s"] !== -1) {
-                                                    readText = readText.replace(/\n\n\n+/g,"\n\n");
-                                                }
-                                                if (options.index["-E"] !== -1) {
-                                                    readText = readText.replaceAll("\n","$\n");
-                                                }
-                                                if (options.index["-T"] !== -1) {
-                                                    readText = readText.replaceAll("\t","^I");
-                                                }
-                                                if (options.index["-v"] !== -1) {
-                                                    const caret: { [key: string]: string } = {
-                                                        "\x00":"^@",
-                                                        "\x01":"^A",
-                                                        "\x02":"^B",
-                                                        "\x03":"^C",
-                                                        "\x04":"^D",
-                                                        "\x05":"^E",
-                                                        "\x06":"^F",
-                                                        "\x07":"^G",
-                                                        "\x08":"^H",
-                                                        "\x0b":"^K",
-                                                        "\x0c":"^L",
-                                                        "\x0d":"^M",
-                                                        "\x0e":"^N",
-                                                        "\x0f":"^O",
-                                                        "\x10":"^P",
-                                                        "\x11":"^Q",
-                                                        "\x12":"^R",
-                                                        "\x13":"^S",
-                                                        "\x14":"^T",
-                                                        "\x15":"^U",
-                                                        "\x16":"^V",
-                                                        "\x17":"^W",
-                                                        "\x18":"^X",
-                                                        "\x19":"^Y",
-                                                        "\x1a":"^Z",
-                                                        "\x1b":"^[",
-                                                        "\x1c":"^\\",
-                                                        "\x1d":"^]",
-                                                        "\x1e":"^^",
-                                                        "\x1f":"^_",
-                                                        "\x7f":"^?"
-                                                    }
-                                                    readText = readText.replace(
-                                                        /[\x00\x01\x02\x03\x04\x05\x06\x07\x08\x0b\x0c\x0d\x0e\x0f\x10\x11\x12\x13\x14\x15\x16\x17\x18\x19\x1a\x1b\x1c\x1d\x1e\x1f\x7f]/g,
-                                                        s => caret[s]
-                                                    );
+                                            if (error) return 1;
+
+                                            if (options.index["-s"] !== -1) {
+                                                readText = readText.replace(/\n\n\n+/g,"\n\n");
+                                            }
+                                            if (options.index["-E"] !== -1) {
+                                                readText = readText.replaceAll("\n","$\n");
+                                            }
+                                            if (options.index["-T"] !== -1) {
+                                                readText = readText.replaceAll("\t","^I");
+                                            }
+                                            if (options.index["-v"] !== -1) {
+                                                const caret: { [key: string]: string } = {
+                                                    "\x00":"^@",
+                                                    "\x01":"^A",
+                                                    "\x02":"^B",
+                                                    "\x03":"^C",
+                                                    "\x04":"^D",
+                                                    "\x05":"^E",
+                                                    "\x06":"^F",
+                                                    "\x07":"^G",
+                                                    "\x08":"^H",
+                                                    "\x0b":"^K",
+                                                    "\x0c":"^L",
+                                                    "\x0d":"^M",
+                                                    "\x0e":"^N",
+                                                    "\x0f":"^O",
+                                                    "\x10":"^P",
+                                                    "\x11":"^Q",
+                                                    "\x12":"^R",
+                                                    "\x13":"^S",
+                                                    "\x14":"^T",
+                                                    "\x15":"^U",
+                                                    "\x16":"^V",
+                                                    "\x17":"^W",
+                                                    "\x18":"^X",
+                                                    "\x19":"^Y",
+                                                    "\x1a":"^Z",
+                                                    "\x1b":"^[",
+                                                    "\x1c":"^\\",
+                                                    "\x1d":"^]",
+                                                    "\x1e":"^^",
+                                                    "\x1f":"^_",
+                                                    "\x7f":"^?"
                                                 }
-                                                if (options.index["-n"] !== -1 || options.index["-b"] !== -1) {
-                                                    let countLine = 1
-                                                    const lines = readText.split("\n")
-                                                    for (let i = 0; i < lines.length; i++) {
-                                                        let line = lines[i];
-                                                        if (options.index["-b"] !== -1) {
-                                                            if (i === lines.length - 1) {
-                                                                if (line === "") {
-                                                                    lib.io.write(line, 1)
-                                                                } else {
-                                                                    const textLength = countLine.toString()
-                                                                    lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
-                                                                }
+                                                readText = readText.replace(
+                                                    /[\x00\x01\x02\x03\x04\x05\x06\x07\x08\x0b\x0c\x0d\x0e\x0f\x10\x11\x12\x13\x14\x15\x16\x17\x18\x19\x1a\x1b\x1c\x1d\x1e\x1f\x7f]/g,
+                                                    s => caret[s]
+                                                );
+                                            }
+                                            if (options.index["-n"] !== -1 || options.index["-b"] !== -1) {
+                                                let countLine = 1
+                                                const lines = readText.split("\n")
+                                                for (let i = 0; i < lines.length; i++) {
+                                                    let line = lines[i];
+                                                    if (options.index["-b"] !== -1) {
+                                                        if (i === lines.length - 1) {
+                                                            if (line === "") {
+                                                                lib.io.write(line, 1)
                                                             } else {
-                                                                if (line === (options.index["-T"] === -1 ? "" : "$")) {
-                                                                    lib.io.write(line, 1)
-                                                                } else {
-                                                                    const textLength = countLine.toString()
-                                                                    lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
-                                                                    countLine++;
-                                                                }
-                                                                lib.io.write("\n", 1)
+                                                                const textLength = countLine.toString()
+                                                                lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
                                                             }
                                                         } else {
-                                                            const textLength = (i + 1).toString()
-                                                            lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
-                                                            if (i !== lines.length - 1) {
-                                                                lib.io.write("\n", 1)
+                                                            if (line === (options.index["-T"] === -1 ? "" : "$")) {
+                                                                lib.io.write(line, 1)
+                                                            } else {
+                                                                const textLength = countLine.toString()
+                                                                lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
+                                                                countLine++;
                                                             }
+                                                            lib.io.write("\n", 1)
+                                                        }
+                                                    } else {
+                                                        const textLength = (i + 1).toString()
+                                                        lib.io.write("      ".slice(0, 6 - textLength.length) + textLength + "  " + line, 1)
+                                                        if (i !== lines.length - 1) {
+                                                            lib.io.write("\n", 1)
                                                         }
                                                     }
-                                                    readText.replaceAll("\t","^I");
+                                                }
+                                                readText.replaceAll("\t","^I");
+                                            } else {
+                                                lib.io.write(readText, 1)
+                                            }
+                                        }
+                                    }
+                                }
+                            },
+                            {
+                                name: "grep",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.grep);
+
+                                    if (options.invalidOption) {
+                                        lib.io.write(`grep: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        lib.io.write(`Try 'grep --help' for more information.\n`, 2);
+                                        return 2;
+                                    }
+                                    if (options.index["--help"] !== -1) {
+                                        lib.io.write(
+`使用法: grep [オプション]... パターン [ファイル]...
+各ファイルからパターンに一致する行を検索します。
+
+  -i, --ignore-case        大文字と小文字を区別しない
+  -v, --invert-match       一致しない行を選択する
+  -n, --line-number        行番号を表示する
+  -c, --count              一致した行数のみを表示する
+      --help     この使い方を表示して終了する
+
+`, 1);
+                                        return;
+                                    }
+
+                                    const has = (...names: string[]) => names.some(n => options.index[n] !== -1);
+                                    const [pattern, ...fileNames] = args.slice(options.lastOptionIndex + 1);
+                                    if (pattern === undefined) {
+                                        lib.io.write(`使用法: grep [オプション]... パターン [ファイル]...\n`, 2);
+                                        return 2;
+                                    }
+
+                                    let regexp: RegExp;
+                                    try {
+                                        regexp = new RegExp(pattern, has("-i", "--ignore-case") ? "i" : "");
+                                    } catch {
+                                        lib.io.write(`grep: 不正な正規表現です\n`, 2);
+                                        return 2;
+                                    }
+
+                                    // NOTE: 一致する行があれば 0、なければ 1、エラーが発生した場合は 2 を返す
+                                    let matched = false;
+                                    let failed = false;
+                                    for (const fileName of fileNames.length === 0 ? ["-"] : fileNames) {
+                                        const prefix = fileNames.length > 1 ? fileName + ":" : "";
+                                        let count = 0;
+                                        let lineNumber = 0;
+
+                                        const match = (line: string) => {
+                                            lineNumber++;
+                                            if (regexp.test(line) === has("-v", "--invert-match")) return;
+
+                                            count++;
+                                            matched = true;
+                                            if (!has("-c", "--count")) {
+                                                lib.io.write(prefix + (has("-n", "--line-number") ? lineNumber + ":" : "") + line + "\n", 1);
+                                            }
+                                        };
+
+                                        try {
+                                            // NOTE: "-" は標準入力を表す
+                                            const fd = fileName === "-" ? 0 : this.open(fileName, OpenFlag.READ);
+                                            let rest = "";
+                                            const decoder = new TextDecoder();
+                                            while (true) {
+                                                const data = await this.read(fd);
+                                                if (data.byteLength === 0) break;
+
+                                                const lines = (rest + decoder.decode(data, { stream: true })).split("\n");
+                                                rest = lines.pop()!;
+                                                lines.forEach(match);
+                                            }
+                                            if (rest !== "") match(rest);
+                                            if (fd !== 0) this.close(fd);
+                                        } catch (e) {
+                                            if (e instanceof ENOENT) {
+                                                lib.io.write(`grep: ${fileName}: そのようなファイルやディレクトリはありません\n`, 2);
+                                                failed = true;
+                                                continue;
+                                            } else if (e instanceof EISDIR) {
+                                                lib.io.write(`grep: ${fileName}: ディレクトリです\n`, 2);
+                                                failed = true;
+                                                continue;
+                                            } else if (e instanceof EACCES) {
+                                                lib.io.write(`grep: ${fileName}: 許可がありません\n`, 2);
+                                                failed = true;
+                                                continue;
+                                            } else {
+                                                throw e;
+                                            }
+                                        }
+
+                                        if (has("-c", "--count")) {
+                                            lib.io.write(prefix + count + "\n", 1);
+                                        }
+                                    }
+
+                                    return failed ? 2 : matched ? 0 : 1;
+                                }
+                            },
+                            {
+                                name: "echo",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    // NOTE: echo は -n 以外の引数をすべて文字列として扱う
+                                    const noNewline = this.args[0] === "-n";
+                                    const text = this.args.slice(noNewline ? 1 : 0).join(" ");
+
+                                    lib.io.write(text + (noNewline ? "" : "\n"), 1);
+                                }
+                            },
+                            {
+                                name: "kill",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = [...this.args];
+                                    if (args.length === 0) {
+                                        lib.io.write("kill: 使用法: kill [-s sigspec | -signum | -sigspec] pid | -l\n", 2);
+                                        return 2;
+                                    }
+
+                                    if (args[0] === "-l") {
+                                        lib.io.write(Object.values(Signal).filter(v => typeof v === "number").map(v => `${v}) ${Signal[v as Signal]}`).join(" ") + "\n", 1);
+                                        return;
+                                    }
+
+                                    let name = "TERM";
+                                    if (args[0] === "-s") {
+                                        args.shift();
+                                        name = args.shift() ?? "";
+                                    } else if (args[0].startsWith("-") && args.length > 1) {
+                                        name = args.shift()!.slice(1);
+                                    }
+
+                                    // NOTE: シグナル 0 はプロセスの存在確認に使用する
+                                    const sig = name === "0" ? 0 : parseSignal(name);
+                                    if (sig === undefined) {
+                                        lib.io.write(`kill: ${name}: 無効なシグナル指定です\n`, 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const arg of args) {
+                                        if (!/^-?\d+$/.test(arg)) {
+                                            lib.io.write(`kill: ${arg}: 引数はプロセス ID である必要があります\n`, 2);
+                                            failed = true;
+                                            continue;
+                                        }
+
+                                        const pid = parseInt(arg);
+                                        try {
+                                            this.kill(pid, sig);
+                                        } catch (e) {
+                                            if (e instanceof ESRCH) {
+                                                lib.io.write(`kill: (${pid}) - そのようなプロセスはありません\n`, 2);
+                                            } else if (e instanceof EPERM) {
+                                                lib.io.write(`kill: (${pid}) - 許可されていない操作です\n`, 2);
+                                            } else {
+                                                throw e;
+                                            }
+                                            failed = true;
+                                        }
+                                    }
+
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "sleep",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    if (this.args.length === 0) {
+                                        lib.io.write("sleep: オペランドがありません\n", 2);
+                                        return 1;
+                                    }
+
+                                    const seconds = this.args.map(Number);
+                                    const invalid = this.args.find((_, i) => isNaN(seconds[i]) || seconds[i] < 0);
+                                    if (invalid !== undefined) {
+                                        lib.io.write(`sleep: 無効な時間間隔 '${invalid}' です\n`, 2);
+                                        return 1;
+                                    }
+
+                                    await this.sleep(seconds.reduce((a, b) => a + b, 0) * 1000);
+                                }
+                            },
+                            {
+                                name: "ps",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    // NOTE: ps aux のような - を付けない指定は BSD 形式のオプションとして扱う
+                                    const bsd = this.args.length > 0 && !this.args[0].startsWith("-");
+                                    let all: boolean, full: boolean, user: boolean, noTty: boolean;
+                                    if (bsd) {
+                                        const letters = [...this.args.join("")];
+                                        const invalid = letters.find(c => !"aux".includes(c));
+                                        if (invalid !== undefined) {
+                                            lib.io.write(`ps: 無効なオプション -- ${invalid}\n`, 2);
+                                            return 1;
+                                        }
+                                        [all, full, user, noTty] = [letters.includes("a"), false, letters.includes("u"), letters.includes("x")];
+                                    } else {
+                                        const options = parseOptions(this.args, ...COMMAND_OPTIONS.ps);
+                                        if (options.invalidOption) {
+                                            lib.io.write(`ps: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                            return 1;
+                                        }
+                                        const has = (...names: string[]) => names.some(n => options.index[n] !== -1);
+                                        [all, full, user, noTty] = [has("-e", "-A"), has("-f"), false, has("-e", "-A")];
+                                    }
+
+                                    const processes = await readProcesses(this);
+                                    const users = await readPasswd(this);
+                                    const userName = (uid: number) => users.find(u => u.uid === uid)?.name ?? uid.toString();
+                                    const tty = processes.find(p => p.pid === this.getpid())?.tty ?? "?";
+                                    const euid = this.geteuid();
+                                    const now = Date.now();
+
+                                    // NOTE: 既定では自身と同じ実効ユーザー・端末のプロセスを、BSD 形式では自身の端末を持つプロセスを表示する
+                                    const selected = processes.filter(p =>
+                                        bsd ? (all || p.uid === euid) && (noTty || p.tty !== "?") :
+                                        all || p.uid === euid && p.tty === tty
+                                    );
+
+                                    const cpu = (p: ProcessInfo) => now > p.startTime ? p.cpuTime * 100 / (now - p.startTime) : 0;
+                                    const command = (p: ProcessInfo) =>
+                                        p.state === "Z" ? `[${p.comm}] <defunct>` :
+                                        full || bsd ? p.cmdline.join(" ") :
+                                        p.comm;
+                                    const stat = (p: ProcessInfo) => p.state + (p.foreground ? "+" : "");
+                                    const bsdTime = (p: ProcessInfo) => {
+                                        const seconds = Math.floor(p.cpuTime / 1000);
+                                        return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+                                    };
+
+                                    // NOTE: 幅が負の列は左揃えで表示し、最後の列は幅を揃えない
+                                    const columns: [string, number, (p: ProcessInfo) => string][] =
+                                        user ? [
+                                            ["USER", -8, p => userName(p.uid)],
+                                            ["PID", 7, p => p.pid.toString()],
+                                            ["%CPU", 4, p => cpu(p).toFixed(1)],
+                                            ["%MEM", 4, () => "0.0"],
+                                            ["VSZ", 6, () => "0"],
+                                            ["RSS", 5, () => "0"],
+                                            ["TTY", -8, p => p.tty],
+                                            ["STAT", -4, stat],
+                                            ["START", -5, p => formatClock(p.startTime)],
+                                            ["TIME", 6, bsdTime],
+                                            ["COMMAND", 0, command]
+                                        ] : bsd ? [
+                                            ["PID", 7, p => p.pid.toString()],
+                                            ["TTY", -8, p => p.tty],
+                                            ["STAT", -4, stat],
+                                            ["TIME", 6, bsdTime],
+                                            ["COMMAND", 0, command]
+                                        ] : full ? [
+                                            ["UID", -8, p => userName(p.uid)],
+                                            ["PID", 7, p => p.pid.toString()],
+                                            ["PPID", 7, p => p.ppid.toString()],
+                                            ["C", 2, p => Math.floor(cpu(p)).toString()],
+                                            ["STIME", -5, p => formatClock(p.startTime)],
+                                            ["TTY", -8, p => p.tty],
+                                            ["TIME", 8, p => formatDuration(p.cpuTime)],
+                                            ["CMD", 0, command]
+                                        ] : [
+                                            ["PID", 7, p => p.pid.toString()],
+                                            ["TTY", -8, p => p.tty],
+                                            ["TIME", 8, p => formatDuration(p.cpuTime)],
+                                            ["CMD", 0, command]
+                                        ];
+                                    const format = (cells: string[]) => cells.map((cell, i) => {
+                                        if (i === cells.length - 1) return cell;
+                                        const padding = " ".repeat(Math.max(0, Math.abs(columns[i][1]) - getStringWidth(cell)));
+                                        return columns[i][1] < 0 ? cell + padding : padding + cell;
+                                    }).join(" ") + "\n";
+
+                                    lib.io.write(format(columns.map(([header]) => header)), 1);
+                                    for (const p of selected) {
+                                        lib.io.write(format(columns.map(([, , value]) => value(p))), 1);
+                                    }
+                                }
+                            },
+                            {
+                                name: "top",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const options = parseOptions(this.args, ...COMMAND_OPTIONS.top);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`top: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const batch = options.index["-b"] !== -1;
+                                    const delay = Number(options.arguments["-d"] ?? 3);
+                                    const iterations = options.arguments["-n"] === undefined ? Infinity : Number(options.arguments["-n"]);
+                                    if (isNaN(delay) || delay < 0) {
+                                        lib.io.write(`top: 無効な間隔 '${options.arguments["-d"]}' です\n`, 2);
+                                        return 1;
+                                    }
+                                    if (!Number.isInteger(iterations) && iterations !== Infinity || iterations < 1) {
+                                        lib.io.write(`top: 無効な回数 '${options.arguments["-n"]}' です\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const users = await readPasswd(this);
+                                    const userName = (uid: number) => users.find(u => u.uid === uid)?.name ?? uid.toString();
+                                    const rows = parseInt(this.env.LINES ?? "24");
+
+                                    // NOTE: 全画面表示では、キー入力を 1 文字ずつエコーせずに受け取るため端末を非カノニカルモードにする
+                                    let termios: Termios | null = null;
+                                    if (!batch) {
+                                        try {
+                                            termios = this.tcgetattr(0);
+                                            this.tcsetattr(0, { ...termios, lflag: termios.lflag & ~(LocalFlag.ICANON | LocalFlag.ECHO), cc: { ...termios.cc, VMIN: 1, VTIME: 0 } });
+                                        } catch (e) {
+                                            if (!(e instanceof ENOTTY)) throw e;
+                                        }
+                                    }
+
+                                    // NOTE: %CPU は前回の表示からの CPU 使用時間の割合とし、前回存在しなかったプロセスは生成時からの割合とする
+                                    let previous = new Map<number, number>();
+                                    let previousTime = 0;
+                                    let key: Promise<ArrayBuffer> | null = null;
+                                    let keyboard = termios !== null;
+                                    try {
+                                        for (let i = 0; i < iterations; i++) {
+                                            const processes = await readProcesses(this);
+                                            const uptime = parseFloat(await readTextFile(this, "/proc/uptime"));
+                                            const meminfo = await readTextFile(this, "/proc/meminfo");
+                                            const now = Date.now();
+
+                                            const cpu = (p: ProcessInfo) => {
+                                                const elapsed = previous.has(p.pid) ? now - previousTime : now - p.startTime;
+                                                return elapsed > 0 ? Math.min(100, (p.cpuTime - (previous.get(p.pid) ?? 0)) * 100 / elapsed) : 0;
+                                            };
+                                            const sorted = processes.map(p => ({ ...p, cpu: cpu(p) })).sort((a, b) => b.cpu - a.cpu || a.pid - b.pid);
+                                            previous = new Map(processes.map(p => [p.pid, p.cpuTime]));
+                                            previousTime = now;
+
+                                            const count = (state: string) => processes.filter(p => p.state === state).length;
+                                            const memory = (key: string) => parseInt(meminfo.match(new RegExp(`^${key}:\\s+(\\d+)`, "m"))?.[1] ?? "0") / 1024;
+                                            const minutes = Math.floor(uptime / 60);
+                                            const up = (minutes >= 1440 ? `${Math.floor(minutes / 1440)} days, ` : "") +
+                                                (minutes % 1440 >= 60 ? `${Math.floor(minutes % 1440 / 60)}:${(minutes % 60).toString().padStart(2, "0")}` : `${minutes % 60} min`);
+                                            const time = (p: ProcessInfo) => {
+                                                const hundredths = Math.floor(p.cpuTime / 10);
+                                                return `${Math.floor(hundredths / 6000)}:${(Math.floor(hundredths / 100) % 60).toString().padStart(2, "0")}.${(hundredths % 100).toString().padStart(2, "0")}`;
+                                            };
+
+                                            const lines = [
+                                                `top - ${new Date(now).toTimeString().slice(0, 8)} up ${up}`,
+                                                `Tasks: ${processes.length} total, ${count("R")} running, ${count("S")} sleeping, ${count("T")} stopped, ${count("Z")} zombie`,
+                                                `MiB Mem : ${memory("MemTotal").toFixed(1)} total, ${memory("MemFree").toFixed(1)} free, ${(memory("MemTotal") - memory("MemFree")).toFixed(1)} used`,
+                                                "",
+                                                `${"PID".padStart(7)} ${"USER".padEnd(8)} S  %CPU     TIME+ COMMAND`,
+                                                ...sorted.map(p => `${p.pid.toString().padStart(7)} ${userName(p.uid).padEnd(8)} ${p.state} ${p.cpu.toFixed(1).padStart(5)} ${time(p).padStart(9)} ${p.comm}`)
+                                            ];
+                                            // NOTE: 全画面表示では画面に収まる行数のみを表示する
+                                            if (batch) {
+                                                lib.io.write(lines.join("\n") + "\n\n", 1);
+                                            } else {
+                                                lib.io.write("\x1b[2J\x1b[H" + lines.slice(0, rows - 1).join("\n"), 1);
+                                            }
+
+                                            if (i + 1 >= iterations) break;
+                                            if (!keyboard) {
+                                                await this.sleep(delay * 1000);
+                                                continue;
+                                            }
+
+                                            // NOTE: 入力を待ちながら次の更新まで待機し、q が入力された場合は終了する。入力の終端に達した場合は以降の入力を待たない
+                                            key ??= this.read(0);
+                                            const pressed = await Promise.race([key, this.sleep(delay * 1000).then(() => null)]);
+                                            if (pressed === null) continue;
+                                            key = null;
+                                            if (pressed.byteLength === 0) keyboard = false;
+                                            if (new TextDecoder().decode(pressed).includes("q")) break;
+                                        }
+                                    } finally {
+                                        if (termios) this.tcsetattr(0, termios);
+                                    }
+
+                                    if (!batch) lib.io.write("\n", 1);
+                                }
+                            },
+                            {
+                                name: "stty",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    let termios: Termios;
+                                    let size: TerminalSize;
+                                    try {
+                                        termios = this.tcgetattr(0);
+                                        size = this.tcgetwinsize(0);
+                                    } catch (e) {
+                                        lib.io.write(`stty: 'standard input': ${errorMessage(e)}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const flags: [name: string, field: "iflag" | "oflag" | "lflag", bit: number][] = [
+                                        ["icrnl", "iflag", InputFlag.ICRNL],
+                                        ["opost", "oflag", OutputFlag.OPOST],
+                                        ["onlcr", "oflag", OutputFlag.ONLCR],
+                                        ["isig", "lflag", LocalFlag.ISIG],
+                                        ["icanon", "lflag", LocalFlag.ICANON],
+                                        ["echo", "lflag", LocalFlag.ECHO],
+                                        ["echoe", "lflag", LocalFlag.ECHOE],
+                                        ["echok", "lflag", LocalFlag.ECHOK],
+                                        ["echonl", "lflag", LocalFlag.ECHONL],
+                                        ["noflsh", "lflag", LocalFlag.NOFLSH],
+                                        ["echoctl", "lflag", LocalFlag.ECHOCTL]
+                                    ];
+                                    const characters: Record<string, "VINTR" | "VERASE" | "VKILL" | "VEOF"> = { intr: "VINTR", erase: "VERASE", kill: "VKILL", eof: "VEOF" };
+                                    const set = (field: "iflag" | "oflag" | "lflag", bit: number, on: boolean) => {
+                                        Object.assign(termios, { [field]: on ? termios[field] | bit : termios[field] & ~bit });
+                                    };
+
+                                    const args = this.args.filter(a => a !== "-a");
+                                    if (args.length === 1 && args[0] === "size") {
+                                        lib.io.write(`${size.rows} ${size.columns}\n`, 1);
+                                        return;
+                                    } else if (args.length === 0) {
+                                        // NOTE: 制御文字は ^C のような表記で、無効なものは <undef> と表示する
+                                        const show = (char: string) =>
+                                            char === "" ? "<undef>" :
+                                            char === "\x7f" ? "^?" :
+                                            char.charCodeAt(0) < 0x20 ? "^" + String.fromCharCode(char.charCodeAt(0) + 0x40) :
+                                            char;
+                                        const { cc } = termios;
+                                        lib.io.write(`rows ${size.rows}; columns ${size.columns};\n`, 1);
+                                        lib.io.write(`intr = ${show(cc.VINTR)}; erase = ${show(cc.VERASE)}; kill = ${show(cc.VKILL)}; eof = ${show(cc.VEOF)}; min = ${cc.VMIN}; time = ${cc.VTIME};\n`, 1);
+                                        for (const field of ["iflag", "oflag", "lflag"] as const) {
+                                            lib.io.write(flags.filter(f => f[1] === field).map(([name, , bit]) => (termios[field] & bit ? "" : "-") + name).join(" ") + "\n", 1);
+                                        }
+                                        return;
+                                    }
+
+                                    for (let i = 0; i < args.length; i++) {
+                                        const arg = args[i];
+                                        const flag = flags.find(([name]) => arg === name || arg === "-" + name);
+                                        if (flag) {
+                                            set(flag[1], flag[2], !arg.startsWith("-"));
+                                        } else if (arg in characters || ["min", "time", "rows", "cols", "columns"].includes(arg)) {
+                                            const value = args[++i];
+                                            if (value === undefined) {
+                                                lib.io.write(`stty: '${arg}' への引数がありません\n`, 2);
+                                                return 1;
+                                            }
+
+                                            if (!(arg in characters)) {
+                                                if (!/^\d+$/.test(value)) {
+                                                    lib.io.write(`stty: 無効な整数引数 '${value}'\n`, 2);
+                                                    return 1;
+                                                }
+                                                if (arg === "min" || arg === "time") {
+                                                    termios.cc[arg === "min" ? "VMIN" : "VTIME"] = parseInt(value);
                                                 } else {
-                                                    lib.io.write(readText, 1)
+                                                    size[arg === "rows" ? "rows" : "columns"] = parseInt(value);
+                                                }
+                                            } else {
+                                                // NOTE: ^X は制御文字、^? は DEL、^- と undef は無効を表す
+                                                const char =
+                                                    value === "^-" || value === "undef" ? "" :
+                                                    value === "^?" ? "\x7f" :
+                                                    /^\^[@-_a-z]$/.test(value) ? String.fromCharCode(value.toUpperCase().charCodeAt(1) - 0x40) :
+                                                    [...value].length === 1 ? value :
+                                                    null;
+                                                if (char === null) {
+                                                    lib.io.write(`stty: 無効な引数 '${value}'\n`, 2);
+                                                    return 1;
+                                                }
+                                                termios.cc[characters[arg]] = char;
+                                            }
+                                        } else if (arg === "raw" || arg === "-cooked") {
+                                            set("iflag", InputFlag.ICRNL, false);
+                                            set("oflag", OutputFlag.OPOST, false);
+                                            set("lflag", LocalFlag.ISIG | LocalFlag.ICANON, false);
+                                            termios.cc.VMIN = 1;
+                                            termios.cc.VTIME = 0;
+                                        } else if (arg === "-raw" || arg === "cooked") {
+                                            set("iflag", InputFlag.ICRNL, true);
+                                            set("oflag", OutputFlag.OPOST, true);
+                                            set("lflag", LocalFlag.ISIG | LocalFlag.ICANON, true);
+                                        } else if (arg === "sane") {
+                                            termios = defaultTermios();
+                                        } else {
+                                            lib.io.write(`stty: 無効な引数 '${arg}'\n`, 2);
+                                            return 1;
+                                        }
+                                    }
+
+                                    this.tcsetattr(0, termios);
+                                    this.tcsetwinsize(0, size);
+                                }
+                            },
+                            {
+                                name: "tty",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    try {
+                                        this.tcgetattr(0);
+                                    } catch (e) {
+                                        if (!(e instanceof ENOTTY || e instanceof EBADFD)) throw e;
+                                        lib.io.write("端末ではありません\n");
+                                        return 1;
+                                    }
+                                    lib.io.write(this.readlink("/proc/self/fd/0") + "\n");
+                                }
+                            },
+                            {
+                                name: "script",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const options = parseOptions(this.args, ...COMMAND_OPTIONS.script);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`script: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const append = options.index["-a"] !== -1;
+                                    const quiet = options.index["-q"] !== -1;
+                                    const command = options.arguments["-c"] as string | undefined;
+                                    const file = this.args[options.lastOptionIndex + 1] ?? "typescript";
+                                    const shell = this.env.SHELL ?? "/bin/sh";
+
+                                    let log: number;
+                                    let master: number;
+                                    try {
+                                        log = this.open(file, OpenFlag.WRITE | (append ? OpenFlag.APPEND : OpenFlag.TRUNCATE));
+                                        master = this.open("/dev/ptmx", OpenFlag.READ | OpenFlag.WRITE);
+                                    } catch (e) {
+                                        lib.io.write(`script: ${file}: ${errorMessage(e)}\n`, 2);
+                                        return 1;
+                                    }
+                                    const slave = this.ptsname(master);
+                                    const encoder = new TextEncoder();
+
+                                    if (!quiet) lib.io.write(`スクリプトを開始しました。ファイルは ${file} です\n`);
+                                    this.write(log, encoder.encode(`Script started on ${new Date().toString()}\n`).buffer);
+
+                                    // NOTE: 入力は加工せずに疑似端末へ渡すため、端末を raw モードにする。疑似端末のウィンドウサイズは端末に合わせる
+                                    let termios: Termios | null = null;
+                                    try {
+                                        this.tcsetwinsize(master, this.tcgetwinsize(0));
+                                        this.signal(Signal.SIGWINCH, () => this.tcsetwinsize(master, this.tcgetwinsize(0)));
+                                        termios = this.tcgetattr(0);
+                                        this.tcsetattr(0, {
+                                            iflag: termios.iflag & ~InputFlag.ICRNL,
+                                            oflag: termios.oflag & ~OutputFlag.OPOST,
+                                            lflag: termios.lflag & ~(LocalFlag.ISIG | LocalFlag.ICANON | LocalFlag.ECHO),
+                                            cc: { ...termios.cc, VMIN: 1, VTIME: 0 }
+                                        });
+                                    } catch (e) {
+                                        if (!(e instanceof ENOTTY)) throw e;
+                                    }
+
+                                    let status: number;
+                                    try {
+                                        const child = this.spawn(async function () {
+                                            // NOTE: 新しいセッションを作成し、疑似端末のスレーブ側を制御端末にする
+                                            this.setsid();
+                                            const fd = this.open(slave, OpenFlag.READ | OpenFlag.WRITE);
+                                            [0, 1, 2].forEach(i => this.dup2(fd, i));
+                                            this.close(fd);
+
+                                            await this.exec(shell, command === undefined ? [] : ["-c", command]);
+                                        });
+
+                                        // NOTE: 疑似端末の出力を端末とファイルに、端末の入力を疑似端末にそれぞれ転送する。どちらもプロセスの終了時に中断される
+                                        const read = async (fd: number): Promise<ArrayBuffer> => {
+                                            while (true) {
+                                                try {
+                                                    return await this.read(fd);
+                                                } catch (e) {
+                                                    // NOTE: SIGWINCH による中断では転送を続ける
+                                                    if (!(e instanceof EINTR)) throw e;
+                                                }
+                                            }
+                                        };
+                                        (async () => {
+                                            while (true) {
+                                                const data = await read(master);
+                                                this.write(1, data);
+                                                this.write(log, data);
+                                            }
+                                        })().catch(() => {});
+                                        (async () => {
+                                            while (true) {
+                                                const data = await read(0);
+                                                if (data.byteLength === 0) break;
+                                                this.write(master, data);
+                                            }
+                                        })().catch(() => {});
+
+                                        status = await child;
+
+                                        // NOTE: 疑似端末に残っている出力が転送されるのを待つ
+                                        await this.sleep(0);
+                                    } finally {
+                                        if (termios) this.tcsetattr(0, termios);
+                                    }
+
+                                    this.write(log, encoder.encode(`\nScript done on ${new Date().toString()}\n`).buffer);
+                                    this.close(master);
+                                    this.close(log);
+                                    if (!quiet) lib.io.write(`スクリプトを終了しました。ファイルは ${file} です\n`);
+                                    return status;
+                                }
+                            },
+                            {
+                                name: "cp",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.cp);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`cp: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const has = (...names: string[]) => names.some(n => options.index[n] !== -1);
+                                    const recursive = has("-r", "-R", "--recursive");
+                                    const preserve = has("-p", "--preserve");
+                                    const operands = args.slice(options.lastOptionIndex + 1);
+                                    if (operands.length < 2) {
+                                        lib.io.write(operands.length === 0 ? "cp: ファイルオペランドがありません\n" : `cp: '${operands[0]}' の後に宛先のファイルオペランドがありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const target = operands.pop()!;
+                                    let targetIsDirectory = false;
+                                    try {
+                                        targetIsDirectory = (this.stat(target).mode & StatMode.IFDIR) !== 0;
+                                    } catch (e) {
+                                        if (!(e instanceof ENOENT)) throw e;
+                                    }
+                                    if (operands.length > 1 && !targetIsDirectory) {
+                                        lib.io.write(`cp: 宛先 '${target}' はディレクトリではありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    /** 複製先として作成したディレクトリの inode 番号 */
+                                    const copied = new Set<number>();
+                                    /** 引数で指定された複製元と複製先 */
+                                    let operand = { source: "", destination: "" };
+
+                                    /** ファイルを複製します。ディレクトリは再帰的に、シンボリックリンクはリンクとして複製します。 */
+                                    const copy = async (source: string, destination: string, top: boolean): Promise<void> => {
+                                        // NOTE: 引数で指定されたシンボリックリンクはリンク先を、ディレクトリ内のものはリンク自体を複製する
+                                        const stat = top ? this.stat(source) : this.lstat(source);
+                                        if ((stat.mode & StatMode.IFLNK) === StatMode.IFLNK) {
+                                            this.symlink(this.readlink(source), destination);
+                                        } else if (stat.mode & StatMode.IFDIR) {
+                                            // NOTE: 複製元の中に複製先がある場合、作成した複製先のディレクトリを複製元としてたどると無限に再帰するため中断する (GNU cp と同じ)
+                                            if (copied.has(stat.ino)) {
+                                                lib.io.write(`cp: ディレクトリ '${operand.source}' をそれ自身の中 '${operand.destination}' にコピーすることはできません\n`, 2);
+                                                failed = true;
+                                                return;
+                                            }
+                                            try {
+                                                this.mkdir(destination, stat.mode & 0o7777);
+                                            } catch (e) {
+                                                if (!(e instanceof EEXIST)) throw e;
+                                            }
+                                            copied.add(this.stat(destination).ino);
+                                            for (const child of this.readdir(source)) await copy(join(source, child), join(destination, child), false);
+                                        } else {
+                                            const input = this.open(source, OpenFlag.READ);
+                                            const output = this.open(destination, OpenFlag.WRITE | OpenFlag.TRUNCATE, stat.mode & 0o777);
+                                            try {
+                                                for (let data = await this.read(input); data.byteLength > 0; data = await this.read(input)) this.write(output, data);
+                                            } finally {
+                                                this.close(input);
+                                                this.close(output);
+                                            }
+                                        }
+
+                                        if (preserve && (stat.mode & StatMode.IFLNK) !== StatMode.IFLNK) {
+                                            this.chmod(destination, stat.mode & 0o7777);
+                                            this.utimes(destination, stat.atime, stat.mtime);
+                                            try {
+                                                this.chown(destination, stat.owner, stat.group);
+                                            } catch (e) {
+                                                if (!(e instanceof EPERM)) throw e;
+                                            }
+                                        }
+                                    };
+
+                                    for (const source of operands) {
+                                        const destination = targetIsDirectory ? join(target, basename(source)) : target;
+                                        operand = { source, destination };
+                                        try {
+                                            if (!recursive && this.stat(source).mode & StatMode.IFDIR) {
+                                                lib.io.write(`cp: -r が指定されていません。ディレクトリ '${source}' を無視します\n`, 2);
+                                                failed = true;
+                                                continue;
+                                            }
+                                            await copy(source, destination, true);
+                                        } catch (e) {
+                                            lib.io.write(`cp: '${source}' を '${destination}' にコピーできません: ${errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "mv",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.mv);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`mv: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const operands = args.slice(options.lastOptionIndex + 1);
+                                    if (operands.length < 2) {
+                                        lib.io.write(operands.length === 0 ? "mv: ファイルオペランドがありません\n" : `mv: '${operands[0]}' の後に宛先のファイルオペランドがありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const target = operands.pop()!;
+                                    let targetIsDirectory = false;
+                                    try {
+                                        targetIsDirectory = (this.stat(target).mode & StatMode.IFDIR) !== 0;
+                                    } catch (e) {
+                                        if (!(e instanceof ENOENT)) throw e;
+                                    }
+                                    if (operands.length > 1 && !targetIsDirectory) {
+                                        lib.io.write(`mv: 宛先 '${target}' はディレクトリではありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const source of operands) {
+                                        const destination = targetIsDirectory ? join(target, basename(source)) : target;
+                                        try {
+                                            this.rename(source, destination);
+                                        } catch (e) {
+                                            lib.io.write(`mv: '${source}' を '${destination}' に移動できません: ${errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "ln",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.ln);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`ln: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const has = (...names: string[]) => names.some(n => options.index[n] !== -1);
+                                    const symbolic = has("-s", "--symbolic");
+                                    const operands = args.slice(options.lastOptionIndex + 1);
+                                    if (operands.length === 0) {
+                                        lib.io.write("ln: ファイルオペランドがありません\n", 2);
+                                        return 1;
+                                    }
+
+                                    // NOTE: リンク名を省略した場合はカレントディレクトリにリンクを作成する
+                                    const target = operands.length === 1 ? "." : operands.pop()!;
+                                    let targetIsDirectory = false;
+                                    try {
+                                        targetIsDirectory = (this.stat(target).mode & StatMode.IFDIR) !== 0;
+                                    } catch (e) {
+                                        if (!(e instanceof ENOENT)) throw e;
+                                    }
+                                    if (operands.length > 1 && !targetIsDirectory) {
+                                        lib.io.write(`ln: 宛先 '${target}' はディレクトリではありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const source of operands) {
+                                        const linkpath = targetIsDirectory ? join(target, basename(source)) : target;
+                                        try {
+                                            if (has("-f", "--force")) {
+                                                try {
+                                                    this.unlink(linkpath);
+                                                } catch (e) {
+                                                    if (!(e instanceof ENOENT)) throw e;
                                                 }
                                             }
+
+                                            if (symbolic) {
+                                                this.symlink(source, linkpath);
+                                            } else {
+                                                this.link(source, linkpath);
+                                            }
+                                        } catch (e) {
+                                            lib.io.write(`ln: ${symbolic ? "シンボリックリンク" : "ハードリンク"} '${linkpath}' の作成に失敗しました: ${errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "chmod",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    // NOTE: -x のようなモード指定をオプションとして扱わないよう、オプション解析は行わない
+                                    const [spec, ...fileNames] = this.args;
+                                    if (spec === undefined || fileNames.length === 0) {
+                                        lib.io.write(spec === undefined ? "chmod: オペランドがありません\n" : `chmod: '${spec}' の後にオペランドがありません\n`, 2);
+                                        return 1;
+                                    }
+                                    if (parseMode(spec, 0, false) === null) {
+                                        lib.io.write(`chmod: 無効なモード: '${spec}'\n`, 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const fileName of fileNames) {
+                                        try {
+                                            const stat = this.stat(fileName);
+                                            this.chmod(fileName, parseMode(spec, stat.mode & 0o7777, (stat.mode & StatMode.IFDIR) !== 0)!);
+                                        } catch (e) {
+                                            lib.io.write(`chmod: '${fileName}' のパーミッションを変更しています: ${errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "chown",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const [spec, ...fileNames] = this.args;
+                                    if (spec === undefined || fileNames.length === 0) {
+                                        lib.io.write(spec === undefined ? "chown: オペランドがありません\n" : `chown: '${spec}' の後にオペランドがありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    // NOTE: OWNER、OWNER:GROUP、:GROUP の形式を受け付ける
+                                    const [ownerName, groupName] = spec.split(":");
+                                    const users = await readPasswd(this);
+                                    const groups = await readGroup(this);
+
+                                    let owner = -1;
+                                    if (ownerName !== "") {
+                                        owner = users.find(u => u.name === ownerName)?.uid ?? (/^\d+$/.test(ownerName) ? parseInt(ownerName) : NaN);
+                                        if (isNaN(owner)) {
+                                            lib.io.write(`chown: 無効なユーザー: '${spec}'\n`, 2);
+                                            return 1;
+                                        }
+                                    }
+                                    let group = -1;
+                                    if (groupName !== undefined && groupName !== "") {
+                                        group = groups.find(g => g.name === groupName)?.gid ?? (/^\d+$/.test(groupName) ? parseInt(groupName) : NaN);
+                                        if (isNaN(group)) {
+                                            lib.io.write(`chown: 無効なグループ: '${spec}'\n`, 2);
+                                            return 1;
+                                        }
+                                    }
+
+                                    let failed = false;
+                                    for (const fileName of fileNames) {
+                                        try {
+                                            this.chown(fileName, owner, group);
+                                        } catch (e) {
+                                            lib.io.write(`chown: '${fileName}' の所有者を変更中: ${errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "touch",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.touch);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`touch: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const noCreate = options.index["-c"] !== -1 || options.index["--no-create"] !== -1;
+                                    const fileNames = args.slice(options.lastOptionIndex + 1);
+                                    if (fileNames.length === 0) {
+                                        lib.io.write("touch: ファイルオペランドがありません\n", 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const fileName of fileNames) {
+                                        try {
+                                            this.utimes(fileName);
+                                        } catch (e) {
+                                            if (!(e instanceof ENOENT)) {
+                                                lib.io.write(`touch: '${fileName}' に touch できません: ${errorMessage(e)}\n`, 2);
+                                                failed = true;
+                                                continue;
+                                            }
+                                            if (noCreate) continue;
+
+                                            try {
+                                                this.close(this.open(fileName, OpenFlag.WRITE));
+                                            } catch (e) {
+                                                lib.io.write(`touch: '${fileName}' に touch できません: ${errorMessage(e)}\n`, 2);
+                                                failed = true;
+                                            }
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "readlink",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    if (this.args.length === 0) {
+                                        lib.io.write("readlink: オペランドがありません\n", 2);
+                                        return 1;
+                                    }
+
+                                    // NOTE: GNU readlink と同様に、シンボリックリンクでない場合は何も表示せずに失敗する
+                                    let failed = false;
+                                    for (const fileName of this.args) {
+                                        try {
+                                            lib.io.write(this.readlink(fileName) + "\n", 1);
+                                        } catch (e) {
+                                            if (!(e instanceof OSError)) throw e;
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 1 : 0;
+                                }
+                            },
+                            {
+                                name: "mount",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.mount);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`mount: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const operands = args.slice(options.lastOptionIndex + 1);
+                                    // NOTE: 引数がない場合はマウントテーブルを表示する
+                                    if (operands.length === 0) {
+                                        for (const [source, target, type, flags] of (await readTextFile(this, "/proc/mounts")).split("\n").filter(l => l !== "").map(l => l.split(" "))) {
+                                            lib.io.write(`${source} on ${target} type ${type} (${flags})\n`, 1);
+                                        }
+                                        return 0;
+                                    }
+                                    if (operands.length !== 2 || options.index["-t"] === -1) {
+                                        lib.io.write("使用法: mount -t 種類 [-o ro|rw] ソース マウントポイント\n", 2);
+                                        return 1;
+                                    }
+
+                                    let flags = 0 as MountFlag;
+                                    for (const option of (options.arguments["-o"] as string | undefined)?.split(",") ?? []) {
+                                        if (option === "ro") flags |= MountFlag.RDONLY;
+                                        else if (option === "rw") flags &= ~MountFlag.RDONLY;
+                                        else {
+                                            lib.io.write(`mount: 不明なマウントオプションです: ${option}\n`, 2);
+                                            return 1;
+                                        }
+                                    }
+
+                                    const [source, target] = operands;
+                                    try {
+                                        this.mount(source, target, options.arguments["-t"] as string, flags);
+                                    } catch (e) {
+                                        lib.io.write(`mount: ${target}: ${errorMessage(e)}\n`, 2);
+                                        return 32;
+                                    }
+                                    return 0;
+                                }
+                            },
+                            {
+                                name: "umount",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    if (this.args.length === 0) {
+                                        lib.io.write("umount: オペランドがありません\n", 2);
+                                        return 1;
+                                    }
+
+                                    let failed = false;
+                                    for (const target of this.args) {
+                                        try {
+                                            this.umount(target);
+                                        } catch (e) {
+                                            // NOTE: マウントポイントでない場合の EINVAL は分かりやすいメッセージに置き換える
+                                            lib.io.write(`umount: ${target}: ${e instanceof EINVAL ? "マウントされていません" : errorMessage(e)}\n`, 2);
+                                            failed = true;
+                                        }
+                                    }
+                                    return failed ? 32 : 0;
+                                }
+                            },
+                            {
+                                name: "tar",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    // NOTE: tar cvf a.tar のような - を省略したオプション指定にも対応する
+                                    const args = this.args.length > 0 && !this.args[0].startsWith("-") ? ["-" + this.args[0], ...this.args.slice(1)] : this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.tar);
+                                    if (options.invalidOption) {
+                                        lib.io.write(`tar: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        return 2;
+                                    }
+
+                                    const has = (name: string) => options.index[name] !== -1;
+                                    const modes = ["-c", "-x", "-t"].filter(has);
+                                    if (modes.length !== 1) {
+                                        lib.io.write("tar: '-c', '-x', '-t' のいずれか 1 つを指定してください\n", 2);
+                                        return 2;
+                                    }
+                                    const archive = options.arguments["-f"] as string | undefined;
+                                    if (!archive) {
+                                        lib.io.write("tar: アーカイブを '-f' で指定してください\n", 2);
+                                        return 2;
+                                    }
+                                    const directory = options.arguments["-C"] as string | undefined ?? ".";
+                                    const operands = args.slice(options.lastOptionIndex + 1);
+
+                                    const permissions = (entry: TarEntry) =>
+                                        ({ file: "-", hardlink: "h", symlink: "l", directory: "d" })[entry.type] +
+                                        [6, 3, 0].map(shift => ["r", "w", "x"].map((c, i) => entry.mode >> shift & (4 >> i) ? c : "-").join("")).join("");
+                                    const list = (entry: TarEntry) => {
+                                        const name = entry.type === "directory" ? entry.pathname + "/" : entry.pathname;
+                                        if (!has("-v")) return lib.io.write(name + "\n", 1);
+
+                                        const date = new Date(entry.mtime);
+                                        const pad = (n: number) => n.toString().padStart(2, "0");
+                                        const time = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+                                        const link = entry.type === "symlink" ? ` -> ${entry.target}` : entry.type === "hardlink" ? ` link to ${entry.target}` : "";
+                                        lib.io.write(`${permissions(entry)} ${entry.owner}/${entry.group} ${(entry.data?.byteLength ?? 0).toString().padStart(8)} ${time} ${name}${link}\n`, 1);
+                                    };
+
+                                    try {
+                                        if (has("-c")) {
+                                            if (operands.length === 0) {
+                                                lib.io.write("tar: 空のアーカイブは作成できません\n", 2);
+                                                return 2;
+                                            }
+                                            const data = await packTar(this, operands, directory, entry => has("-v") && lib.io.write((entry.type === "directory" ? entry.pathname + "/" : entry.pathname) + "\n", 1));
+                                            const fd = this.open(archive, OpenFlag.WRITE | OpenFlag.TRUNCATE);
+                                            this.write(fd, data);
+                                            this.close(fd);
+                                        } else {
+                                            const fd = this.open(archive, OpenFlag.READ);
+                                            const chunks: ArrayBuffer[] = [];
+                                            for (let data = await this.read(fd); data.byteLength > 0; data = await this.read(fd)) chunks.push(data);
+                                            this.close(fd);
+
+                                            if (has("-t")) {
+                                                decodeTar(concatArrayBuffer(...chunks)).forEach(list);
+                                            } else {
+                                                await unpackTar(this, concatArrayBuffer(...chunks), directory, entry => has("-v") && lib.io.write((entry.type === "directory" ? entry.pathname + "/" : entry.pathname) + "\n", 1));
+                                            }
+                                        }
+                                    } catch (e) {
+                                        lib.io.write(`tar: ${e instanceof ArchiveError ? e.message : errorMessage(e)}\n`, 2);
+                                        return 2;
+                                    }
+                                    return 0;
+                                }
+                            },
+                            {
+                                name: "id",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const users = await readPasswd(this);
+                                    const groups = await readGroup(this);
+                                    const userName = (uid: number) => `${uid}(${users.find(u => u.uid === uid)?.name ?? uid})`;
+                                    const groupName = (gid: number) => `${gid}(${groups.find(g => g.gid === gid)?.name ?? gid})`;
+
+                                    let uid, gid, euid, egid, supplementary;
+                                    if (this.args.length === 0) {
+                                        [uid, gid, euid, egid, supplementary] = [this.getuid(), this.getgid(), this.geteuid(), this.getegid(), this.getgroups()];
+                                    } else {
+                                        const user = users.find(u => u.name === this.args[0]);
+                                        if (!user) {
+                                            lib.io.write(`id: '${this.args[0]}': そのようなユーザーは存在しません\n`, 2);
+                                            return 1;
+                                        }
+                                        [uid, gid, euid, egid] = [user.uid, user.gid, user.uid, user.gid];
+                                        supplementary = groups.filter(g => g.members.includes(user.name)).map(g => g.gid);
+                                    }
+
+                                    lib.io.write(
+                                        `uid=${userName(uid)} gid=${groupName(gid)}` +
+                                        (euid !== uid ? ` euid=${userName(euid)}` : "") +
+                                        (egid !== gid ? ` egid=${groupName(egid)}` : "") +
+                                        ` groups=${[...new Set([gid, ...supplementary])].map(groupName).join(",")}\n`,
+                                        1
+                                    );
+                                }
+                            },
+                            {
+                                name: "passwd",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o4755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const users = await readPasswd(this);
+                                    const uid = this.getuid();
+                                    const userName = this.args[0] ?? users.find(u => u.uid === uid)?.name;
+                                    const user = users.find(u => u.name === userName);
+                                    if (!user) {
+                                        lib.io.write(`passwd: ユーザー '${userName ?? uid}' は存在しません\n`, 2);
+                                        return 1;
+                                    }
+                                    if (uid !== 0 && user.uid !== uid) {
+                                        lib.io.write(`passwd: ${user.name} のパスワードを変更する権限がありません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const shadow = await readDatabase(this, "/etc/shadow");
+                                    const entry = shadow.find(([name]) => name === user.name);
+                                    if (!entry) {
+                                        lib.io.write(`passwd: ${user.name} のシャドウエントリが見つかりません\n`, 2);
+                                        return 1;
+                                    }
+
+                                    lib.io.write(`${user.name} のパスワードを変更します\n`);
+                                    if (uid !== 0) {
+                                        lib.io.write("現在のパスワード: ");
+                                        if (!verifyPassword(await readPassword(this, lib), entry[1])) {
+                                            lib.io.write("passwd: 認証トークン操作エラー\n", 2);
+                                            return 1;
                                         }
                                     }
+
+                                    lib.io.write("新しいパスワード: ");
+                                    const password = await readPassword(this, lib);
+                                    lib.io.write("新しいパスワードを再入力してください: ");
+                                    if (password !== await readPassword(this, lib)) {
+                                        lib.io.write("パスワードが一致しません。\n", 2);
+                                        return 1;
+                                    }
+                                    if (password === "") {
+                                        lib.io.write("パスワードが入力されていません。\n", 2);
+                                        return 1;
+                                    }
+
+                                    entry[1] = hashPassword(password);
+                                    entry[2] = Math.floor(Date.now() / 86400000).toString();
+                                    writeTextFile(this, "/etc/shadow", shadow.map(e => e.join(":") + "\n").join(""));
+                                    lib.io.write("passwd: パスワードは正しく更新されました\n");
                                 }
                             }
                         ]
@@ -568,35 +2676,186 @@ There is NO WARRANTY, to the extent permitted by law.
                         type: "directory",
                         owner: 0,
                         group: 0,
-                        mode: 0o777,
+                        mode: 0o755,
                         deleted: false,
                         children: [
                             {
-                                name: "init",
+                                name: "getty",
                                 type: "executable-file",
                                 owner: 0,
                                 group: 0,
-                                mode: 0o777,
+                                mode: 0o755,
                                 deleted: false,
                                 protected: true,
 
                                 async onStart(lib) {
+                                    if (this.args.length < 1) {
+                                        lib.io.write("getty: 端末が指定されていません\n", 2);
+                                        return 1;
+                                    }
+                                    const tty = this.args[0].startsWith("/") ? this.args[0] : join("/dev", this.args[0]);
+
+                                    // NOTE: 新しいセッションを作成し、端末を制御端末として標準入出力に割り当てる
+                                    try {
+                                        this.setsid();
+                                        const fd = this.open(tty, OpenFlag.READ | OpenFlag.WRITE);
+                                        [0, 1, 2].forEach(i => this.dup2(fd, i));
+                                        this.close(fd);
+                                    } catch (e) {
+                                        lib.io.write(`getty: ${tty}: ${errorMessage(e)}\n`, 2);
+                                        return 1;
+                                    }
+
+                                    // NOTE: /etc/issue の \s を OS 名、\v を OS バージョン、\n をマシン名、\l を端末名に置き換えて表示する
                                     try {
                                         const info = this.uname();
-                                        lib.io.write(`\n${info.os_name} ${info.os_version}\n`);
-                                        lib.io.write("Copyright (C) 2024 Kotonone and ShalfeltOS contributors\n\n");
+                                        const escapes: Record<string, string> = { s: info.os_name, v: info.os_version, n: info.nodename, l: basename(tty), "\\": "\\" };
+                                        lib.io.write((await readTextFile(this, "/etc/issue")).replace(/\\(.)/g, (match, char) => escapes[char] ?? match));
+                                    } catch {}
 
-                                        await this.spawn(async function() {
-                                            await this.exec("/bin/login", [], {
-                                                PWD: "/",
-                                                PATH: "/bin:/sbin"
-                                            });
-                                        });
+                                    await this.exec("/bin/login");
+                                }
+                            },
+                            {
+                                name: "init",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    try {
+                                        // NOTE: inittab が存在しない古いストレージでは、init の端末でログインを求める
+                                        let entries: string[][];
+                                        try {
+                                            entries = (await readDatabase(this, "/etc/inittab")).filter(([id]) => !id.startsWith("#"));
+                                        } catch {
+                                            entries = [["1", "2345", "respawn", "/bin/login"]];
+                                        }
+
+                                        // NOTE: respawn のエントリを並行して実行し、終了するたびに再度実行する
+                                        await Promise.all(entries.filter(([, , action]) => action === "respawn").map(async ([id, , , command]) => {
+                                            const [pathname, ...args] = command.split(" ").filter(a => a !== "");
+                                            let failures = 0;
+                                            while (true) {
+                                                const start = Date.now();
+                                                await this.spawn(async function() {
+                                                    await this.exec(pathname, args, {
+                                                        PWD: "/",
+                                                        PATH: "/bin:/sbin"
+                                                    });
+                                                });
+
+                                                failures = Date.now() - start < RESPAWN_INTERVAL ? failures + 1 : 0;
+                                                if (failures >= RESPAWN_LIMIT) {
+                                                    lib.io.write(`init: ID "${id}" の再起動が速すぎるため、${RESPAWN_DISABLE_TIME / 60000} 分間停止します\n`, 2);
+                                                    await this.sleep(RESPAWN_DISABLE_TIME);
+                                                    failures = 0;
+                                                }
+                                            }
+                                        }));
                                     } catch (e) {
                                         console.error(e);
-                                        terminal.write(`\x1b[2J\x1b[H\x1b[0m\x1b[40m  ${"\x1b[43m  \x1b[40m  ".repeat(10)}\n\n`);
-                                        terminal.write(`\x1b[0m  \x1b[1m\x1b[4m\x1b[33mShalfeltOS Kernel Panic\n\n`);
-                                        terminal.write(`\x1b[0m  ${(e as Error).stack}`);
+                                        // NOTE: 端末デバイスを経由せずに書き込むため、改行は自身で CRLF に変換する
+                                        terminal.write(`\x1b[2J\x1b[H\x1b[0m\x1b[40m  ${"\x1b[43m  \x1b[40m  ".repeat(10)}\r\n\r\n`);
+                                        terminal.write(`\x1b[0m  \x1b[1m\x1b[4m\x1b[33mShalfeltOS Kernel Panic\r\n\r\n`);
+                                        terminal.write(`\x1b[0m  ${(e as Error).stack?.replaceAll("\n", "\r\n")}`);
+                                    }
+                                }
+                            },
+                            {
+                                name: "useradd",
+                                type: "executable-file",
+                                owner: 0,
+                                group: 0,
+                                mode: 0o755,
+                                deleted: false,
+                                protected: true,
+
+                                async onStart(lib) {
+                                    const args = this.args;
+                                    const options = parseOptions(args, ...COMMAND_OPTIONS.useradd);
+                                    const name = args[options.lastOptionIndex + 1];
+
+                                    if (options.invalidOption || name === undefined) {
+                                        if (options.invalidOption) lib.io.write(`useradd: 無効なオプション -- ${options.invalidOption}\n`, 2);
+                                        lib.io.write(`使用法: useradd [-m] [-u UID] [-g グループ] [-G グループ,...] [-d ホーム] [-s シェル] [-c コメント] ユーザー名\n`, 2);
+                                        return 2;
+                                    }
+                                    if (!/^[a-z_][a-z0-9_-]*$/.test(name)) {
+                                        lib.io.write(`useradd: '${name}' は無効なユーザー名です\n`, 2);
+                                        return 1;
+                                    }
+
+                                    const argument = (id: string) => options.arguments[id] as string | undefined;
+
+                                    // NOTE: : や改行を含む値は /etc/passwd のフィールドや行を壊すため受け付けない
+                                    for (const [id, label] of [["-c", "コメント"], ["-d", "ホームディレクトリ"], ["-s", "シェル"]]) {
+                                        const value = argument(id);
+                                        if (value !== undefined && /[:\n]/.test(value)) {
+                                            lib.io.write(`useradd: 無効な${label} '${value}'\n`, 2);
+                                            return 1;
+                                        }
+                                    }
+                                    if (argument("-u") !== undefined && !/^\d+$/.test(argument("-u")!)) {
+                                        lib.io.write(`useradd: 無効なユーザー ID '${argument("-u")}'\n`, 2);
+                                        return 1;
+                                    }
+
+                                    try {
+                                        const users = await readPasswd(this);
+                                        const groups = await readGroup(this);
+                                        if (users.some(u => u.name === name)) {
+                                            lib.io.write(`useradd: ユーザー '${name}' は既に存在します\n`, 2);
+                                            return 1;
+                                        }
+
+                                        const nextId = (ids: number[]) => Math.max(999, ...ids) + 1;
+                                        const uid = argument("-u") !== undefined ? parseInt(argument("-u")!) : nextId(users.map(u => u.uid));
+                                        if (users.some(u => u.uid === uid)) {
+                                            lib.io.write(`useradd: UID '${argument("-u")}' は使用できません\n`, 2);
+                                            return 1;
+                                        }
+
+                                        const findGroup = (group: string) => groups.find(g => g.name === group || g.gid.toString() === group);
+                                        const supplementary = (argument("-G") ?? "").split(",").filter(g => g !== "");
+                                        for (const group of [argument("-g"), ...supplementary]) {
+                                            if (group !== undefined && !findGroup(group)) {
+                                                lib.io.write(`useradd: グループ '${group}' は存在しません\n`, 2);
+                                                return 1;
+                                            }
+                                        }
+
+                                        // NOTE: プライマリグループが指定されていない場合、ユーザー名と同じ名前のグループを作成する
+                                        let gid: number;
+                                        if (argument("-g") !== undefined) {
+                                            gid = findGroup(argument("-g")!)!.gid;
+                                        } else {
+                                            gid = groups.some(g => g.gid === uid) ? nextId(groups.map(g => g.gid)) : uid;
+                                            groups.push({ name, password: "x", gid, members: [] });
+                                        }
+                                        supplementary.forEach(g => findGroup(g)!.members.push(name));
+
+                                        const home = argument("-d") ?? join("/home", name);
+                                        const shell = argument("-s") ?? "/bin/sh";
+
+                                        writeTextFile(this, "/etc/passwd", `${name}:x:${uid}:${gid}:${argument("-c") ?? ""}:${home}:${shell}\n`, OpenFlag.APPEND);
+                                        writeTextFile(this, "/etc/group", groups.map(g => `${g.name}:${g.password}:${g.gid}:${g.members.join(",")}\n`).join(""));
+                                        writeTextFile(this, "/etc/shadow", `${name}:!:${Math.floor(Date.now() / 86400000)}:0:99999:7:::\n`, OpenFlag.APPEND);
+
+                                        if (options.index["-m"] !== -1) {
+                                            this.mkdir(home, 0o755);
+                                            this.chown(home, uid, gid);
+                                        }
+                                    } catch (e) {
+                                        if (e instanceof EACCES) {
+                                            lib.io.write(`useradd: 許可がありません\n`, 2);
+                                            return 1;
+                                        } else {
+                                            throw e;
+                                        }
                                     }
                                 }
                             }
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { VirtualScreen } from "@/core/Screen";
+import { boot, currentLine, login, prompt, transcript, type, waitUntil } from "./helpers";
+
+describe("cat", () => {
+    let screen: VirtualScreen;
+    const shell = prompt("kotone");
+
+    beforeEach(async () => {
+        ({ screen } = await boot());
+        await login(screen, "kotone", "kotone");
+    });
+
+    test("ファイルの内容を出力する", async () => {
+        await type(screen, "echo hello > /tmp/a.txt\r", shell);
+        await type(screen, "echo world > /tmp/b.txt\r", shell);
+        expect(await type(screen, "cat /tmp/a.txt /tmp/b.txt\r", shell)).toEqual(["hello", "world"]);
+    });
+
+    test("引数がない場合は標準入力を Ctrl-D まで出力する", async () => {
+        // NOTE: シェルの行編集が残りの入力を読み込まないように、cat の起動を待ってから入力する
+        screen.input("cat\r");
+        await waitUntil(() => currentLine(screen) === "");
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        screen.input("foo\r");
+        await waitUntil(() => transcript(screen).slice(-3).join("\n") === "foo\nfoo\n");
+        await type(screen, "bar\r\x04", shell);
+        expect(transcript(screen).slice(-5, -1)).toEqual(["foo", "foo", "bar", "bar"]);
+    });
+
+    test("パイプからの入力を出力する", async () => {
+        expect(await type(screen, "echo piped | cat\r", shell)).toEqual(["piped"]);
+    });
+
+    test("存在しないファイルではエラーを表示して 1 で終了する", async () => {
+        const lines = await type(screen, "cat /nonexistent\r", shell);
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toContain("/nonexistent");
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["1"]);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "vitest";
+import { OpenFlag } from "@/core/Flags";
+import { boot } from "./helpers";
+
+describe("cp", () => {
+    test("-r でディレクトリを再帰的に複製する", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        process.mkdir("/root/dir", 0o755);
+        process.mkdir("/root/dir/sub", 0o755);
+        process.close(process.open("/root/dir/sub/file", OpenFlag.WRITE));
+
+        expect(await emulator.runCommand("cp -r /root/dir /root/copy")).toEqual({ stdout: "", stderr: "", exitCode: 0 });
+        expect(process.readdir("/root/copy/sub")).toEqual(["file"]);
+    });
+
+    test("ディレクトリをそれ自身の中に複製しようとするとエラーを表示して 1 で終了する", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        process.mkdir("/root/dir", 0o755);
+        process.mkdir("/root/dir/sub", 0o755);
+
+        expect(await emulator.runCommand("cp -r /root/dir /root/dir/sub")).toEqual({
+            stdout: "",
+            stderr: "cp: ディレクトリ '/root/dir' をそれ自身の中 '/root/dir/sub/dir' にコピーすることはできません\n",
+            exitCode: 1
+        });
+        expect(process.readdir("/root/dir/sub/dir/sub")).toEqual([]);
+    });
+
+    test("シンボリックリンクを経由して複製元の中を指定した場合も無限に複製しない", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        process.mkdir("/root/dir", 0o755);
+        process.symlink("/root/dir", "/root/link");
+
+        expect(await emulator.runCommand("cp -r /root/dir /root/link")).toMatchObject({ stdout: "", exitCode: 1 });
+        expect(process.readdir("/root/dir/dir")).toEqual([]);
+    });
+});
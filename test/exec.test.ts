@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { ELOOP, ENOEXEC } from "@/core/Error";
+import { OpenFlag } from "@/core/Flags";
+import { Process } from "@/core/Process";
+import { VirtualScreen } from "@/core/Screen";
+import { boot, login, prompt, type } from "./helpers";
+
+/**
+ * 実行可能なファイルを作成します。
+ * @param process プロセス
+ * @param pathname パス名
+ * @param text 内容
+ */
+function writeScript(process: Process, pathname: string, text: string): void {
+    const fd = process.open(pathname, OpenFlag.WRITE | OpenFlag.TRUNCATE, 0o755);
+    process.write(fd, new TextEncoder().encode(text).buffer);
+    process.close(fd);
+}
+
+describe("exec", () => {
+    test("#! で始まらないファイルは ENOEXEC、インタプリタが循環するスクリプトは ELOOP になる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        writeScript(process, "/tmp/plain", "echo plain\n");
+        writeScript(process, "/tmp/a", "#!/tmp/b\n");
+        writeScript(process, "/tmp/b", "#!/tmp/a\n");
+
+        const errors: unknown[] = [];
+        for (const pathname of ["/tmp/plain", "/tmp/a"]) {
+            await process.spawn(async function () {
+                await this.exec(pathname).catch(e => errors.push(e));
+            });
+        }
+        expect(errors[0]).toBeInstanceOf(ENOEXEC);
+        expect(errors[1]).toBeInstanceOf(ELOOP);
+    });
+});
+
+describe("shebang", () => {
+    let screen: VirtualScreen;
+    const shell = prompt("kotone");
+
+    beforeEach(async () => {
+        ({ screen } = await boot());
+        await login(screen, "kotone", "kotone");
+    });
+
+    test("インタプリタに引数とスクリプトのパス名を渡して実行する", async () => {
+        await type(screen, "echo #!/bin/echo from > /tmp/script\r", shell);
+        await type(screen, "chmod 755 /tmp/script\r", shell);
+        expect(await type(screen, "/tmp/script arg\r", shell)).toEqual(["from /tmp/script arg"]);
+    });
+
+    test("実行できないスクリプトはエラーを表示して 126 で終了する", async () => {
+        await type(screen, "echo echo plain > /tmp/plain\r", shell);
+        await type(screen, "chmod 755 /tmp/plain\r", shell);
+        expect(await type(screen, "/tmp/plain\r", shell)).toEqual(["-fsh: /tmp/plain: 実行形式エラー"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["126"]);
+
+        await type(screen, "echo #!/tmp/loop > /tmp/loop\r", shell);
+        await type(screen, "chmod 755 /tmp/loop\r", shell);
+        expect(await type(screen, "/tmp/loop\r", shell)).toEqual(["-fsh: /tmp/loop: インタプリタの階層が深すぎます"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["126"]);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { ELOOP, ENOTEMPTY, EROFS, EXDEV } from "@/core/Error";
+import { MountFlag, OpenFlag } from "@/core/Flags";
+import { Process } from "@/core/Process";
+import { boot, login, prompt, type } from "./helpers";
+
+/**
+ * ファイルを作成します。
+ * @param process プロセス
+ * @param pathname パス名
+ */
+function createFile(process: Process, pathname: string): void {
+    process.close(process.open(pathname, OpenFlag.WRITE));
+}
+
+describe("rmdir", () => {
+    test("削除や置き換えによって空になったディレクトリを削除できる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        process.mkdir("/root/dir", 0o755);
+        createFile(process, "/root/dir/a");
+        createFile(process, "/root/dir/b");
+        process.rename("/root/dir/a", "/root/dir/b");
+        expect(() => process.rmdir("/root/dir")).toThrow(ENOTEMPTY);
+
+        process.unlink("/root/dir/b");
+        expect(process.readdir("/root/dir")).toEqual([]);
+        process.rmdir("/root/dir");
+        expect(process.readdir("/root")).not.toContain("dir");
+    });
+});
+
+describe("symlink", () => {
+    test("循環するシンボリックリンクは ELOOP になる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        process.symlink("b", "/root/a");
+        process.symlink("a", "/root/b");
+        expect(() => process.stat("/root/a")).toThrow(ELOOP);
+        expect(process.lstat("/root/a").mode).toBeDefined();
+    });
+
+    test("シェルから循環するシンボリックリンクを読み込むとエラーを表示する", async () => {
+        const { screen } = await boot();
+        await login(screen, "kotone", "kotone");
+        const shell = prompt("kotone");
+
+        await type(screen, "ln -s a b\r", shell);
+        await type(screen, "ln -s b a\r", shell);
+        const lines = await type(screen, "cat a\r", shell);
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toMatch(/^cat: /);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["1"]);
+    });
+});
+
+describe("mount", () => {
+    test("読み込み専用のマウントには書き込めない", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        process.mkdir("/mnt/ro", 0o755);
+        process.mount("tmpfs", "/mnt/ro", "tmpfs", MountFlag.RDONLY);
+        expect(() => createFile(process, "/mnt/ro/file")).toThrow(EROFS);
+        expect(() => process.mkdir("/mnt/ro/dir", 0o755)).toThrow(EROFS);
+        expect(() => process.chmod("/mnt/ro", 0o777)).toThrow(EROFS);
+    });
+
+    test("シンボリックリンクを経由しても読み込み専用のマウントには書き込めない", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        process.mkdir("/mnt/ro", 0o755);
+        process.mount("tmpfs", "/mnt/ro", "tmpfs", MountFlag.RDONLY);
+        process.symlink("/mnt/ro", "/root/ro");
+
+        expect(() => createFile(process, "/root/ro/file")).toThrow(EROFS);
+        expect(() => process.utimes("/root/ro")).toThrow(EROFS);
+        expect(() => process.mkdir("/root/ro/dir", 0o755)).toThrow(EROFS);
+        expect(() => process.chmod("/root/ro", 0o777)).toThrow(EROFS);
+        expect(process.readdir("/mnt/ro")).toEqual([]);
+    });
+
+    test("異なるファイルシステムの間ではハードリンクの作成と名前の変更ができない", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        createFile(process, "/root/file");
+        process.symlink("/tmp", "/root/tmp");
+
+        expect(() => process.link("/root/file", "/tmp/link")).toThrow(EXDEV);
+        expect(() => process.link("/root/file", "/root/tmp/link")).toThrow(EXDEV);
+        expect(() => process.rename("/root/file", "/root/tmp/file")).toThrow(EXDEV);
+        expect(() => process.rename("/root/file", "/root/tmp/../tmp/file")).toThrow(EXDEV);
+
+        process.link("/root/file", "/root/link");
+        expect(process.stat("/root/link").nlink).toBe(2);
+    });
+
+    test("シンボリックリンクを経由してマウントしたファイルシステムも参照できる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        process.mkdir("/mnt/data", 0o755);
+        process.symlink("/mnt/data", "/root/data");
+        process.mount("tmpfs", "/root/data", "tmpfs");
+        createFile(process, "/root/data/file");
+
+        expect(process.readdir("/mnt/data")).toEqual(["file"]);
+        expect(() => process.link("/root/data/file", "/root/link")).toThrow(EXDEV);
+        process.umount("/root/data");
+        expect(process.readdir("/mnt/data")).toEqual([]);
+    });
+});
+
+describe("procfs", () => {
+    test("生成されたエントリは参照のたびに同じ inode 番号を持つ", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+
+        const status = process.stat("/proc/1/status").ino;
+        expect(process.stat("/proc/1/status").ino).toBe(status);
+        expect(process.stat("/proc/1/fd").ino).toBe(process.stat("/proc/1/fd").ino);
+        expect(process.stat("/proc/1/stat").ino).not.toBe(status);
+
+        // NOTE: シンボリックリンクを経由した場合も、解決したパスの inode 番号になる
+        const inos: number[] = [];
+        await process.spawn(async function () {
+            inos.push(this.stat("/proc/self/status").ino, this.stat(`/proc/${this.id}/status`).ino);
+        });
+        expect(inos[1]).toBe(inos[0]);
+    });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { VirtualScreen } from "@/core/Screen";
+import { boot, login, prompt, transcript, type, waitUntil } from "./helpers";
+
+describe("fsh", () => {
+    let screen: VirtualScreen;
+    const shell = prompt("kotone");
+
+    beforeEach(async () => {
+        ({ screen } = await boot());
+        await login(screen, "kotone", "kotone");
+    });
+
+    test("プロンプトにユーザー名・ホスト名・ディレクトリを表示する", async () => {
+        expect(await type(screen, "cd /tmp\r", prompt("kotone", "tmp"))).toEqual([]);
+        expect(await type(screen, "cd\r", shell)).toEqual([]);
+    });
+
+    test("パイプラインで標準出力を次のコマンドに渡す", async () => {
+        expect(await type(screen, "echo foo bar | grep foo\r", shell)).toEqual(["foo bar"]);
+        expect(await type(screen, "echo foo | grep bar\r", shell)).toEqual([]);
+    });
+
+    test("> で作成・切り詰め、>> で追記、< で入力をリダイレクトする", async () => {
+        await type(screen, "echo first > /tmp/out.txt\r", shell);
+        await type(screen, "echo second > /tmp/out.txt\r", shell);
+        await type(screen, "echo third >> /tmp/out.txt\r", shell);
+        expect(await type(screen, "cat < /tmp/out.txt\r", shell)).toEqual(["second", "third"]);
+
+        expect(await type(screen, "cat < /tmp/nonexistent\r", shell)).toEqual(["-fsh: /tmp/nonexistent: そのようなファイルやディレクトリはありません"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["1"]);
+    });
+
+    test("2> で標準エラー出力を、2>&1 で標準エラー出力を標準出力にリダイレクトする", async () => {
+        expect(await type(screen, "cat /nonexistent 2> /tmp/err.txt\r", shell)).toEqual([]);
+        const error = await type(screen, "cat /tmp/err.txt\r", shell);
+        expect(error).toHaveLength(1);
+        expect(error[0]).toMatch(/^cat: \/nonexistent/);
+
+        expect(await type(screen, "cat /nonexistent > /tmp/both.txt 2>&1\r", shell)).toEqual([]);
+        expect(await type(screen, "cat /tmp/both.txt\r", shell)).toEqual(error);
+    });
+
+    test("$? に直前のコマンドの終了ステータスを展開する", async () => {
+        await type(screen, "echo foo | grep foo\r", shell);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["0"]);
+
+        await type(screen, "echo foo | grep bar\r", shell);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["1"]);
+
+        await type(screen, "nonexistent\r", shell);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["127"]);
+    });
+
+    test("Ctrl-C でフォアグラウンドのコマンドを中断する", async () => {
+        screen.input("sleep 10\r");
+        await waitUntil(() => screen.getLine(screen.cursor.row - 1).endsWith("sleep 10"));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        await type(screen, "\x03", shell);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["130"]);
+    });
+
+    test("Ctrl-C で入力中の行を破棄する", async () => {
+        expect(await type(screen, "echo foo\x03", shell)).toEqual([]);
+        expect(await type(screen, "echo bar\r", shell)).toEqual(["bar"]);
+    });
+
+    test("空の行で Ctrl-D を押すとシェルを終了する", async () => {
+        await type(screen, "\x04", "kotonepc login:");
+        expect(transcript(screen)).toContain(`${shell} exit`);
+    });
+});
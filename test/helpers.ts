@@ -0,0 +1,100 @@
+import { Emulator } from "@/core/Emulator";
+import { VirtualScreen } from "@/core/Screen";
+import { TerminalSize } from "@/core/Terminal";
+import ShalfeltOS from "@/os/index";
+
+/** 待機の既定のタイムアウト (ミリ秒) */
+const DEFAULT_WAIT_TIMEOUT = 3000;
+
+/**
+ * 仮想画面を /dev/tty1 に接続した ShalfeltOS を起動します。
+ * @param size 仮想画面のウィンドウサイズ
+ */
+export async function boot(size?: TerminalSize): Promise<{ emulator: Emulator, screen: VirtualScreen }> {
+    const screen = new VirtualScreen(size);
+    const { options, storage } = ShalfeltOS(screen);
+    const emulator = new Emulator(options, storage);
+    await emulator.run();
+    return { emulator, screen };
+}
+
+/**
+ * これまでに表示されたすべての行を、スクロールで押し出された行も含めてカーソルのある行まで取得します。
+ * @param screen 仮想画面
+ */
+export function transcript(screen: VirtualScreen): string[] {
+    const rows = [...Array(screen.cursor.row + 1)].map((_, row) => screen.getLine(row));
+    return [...screen.scrollback, ...rows];
+}
+
+/**
+ * カーソルのある行の文字列を取得します。
+ * @param screen 仮想画面
+ */
+export function currentLine(screen: VirtualScreen): string {
+    return screen.getLine(screen.cursor.row);
+}
+
+/**
+ * 条件を満たすまで待機します。
+ * @param condition 条件
+ * @param timeout タイムアウト (ミリ秒)
+ * @throws {Error} タイムアウトした場合
+ */
+export async function waitUntil(condition: () => boolean, timeout: number = DEFAULT_WAIT_TIMEOUT): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting for the condition");
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+/**
+ * カーソルのある行が指定した文字列になるまで待機します。
+ * @param screen 仮想画面
+ * @param line 行の文字列 (末尾の空白は除く)
+ * @param timeout タイムアウト (ミリ秒)
+ */
+export async function waitForLine(screen: VirtualScreen, line: string, timeout?: number): Promise<void> {
+    await waitUntil(() => currentLine(screen) === line, timeout).catch(() => {
+        throw new Error(`Timed out waiting for "${line}":\n${screen.screenshot()}`);
+    });
+}
+
+/**
+ * シェルのプロンプト
+ * @param user ユーザー名
+ * @param directory 表示されるディレクトリ
+ */
+export function prompt(user: string, directory: string = "~"): string {
+    return `[${user}@kotonepc ${directory}]${user === "root" ? "#" : "$"}`;
+}
+
+/**
+ * ログインプロンプトからログインし、シェルのプロンプトが表示されるまで待機します。
+ * @param screen 仮想画面
+ * @param user ユーザー名
+ * @param password パスワード
+ */
+export async function login(screen: VirtualScreen, user: string, password: string): Promise<void> {
+    await waitForLine(screen, "kotonepc login:");
+    screen.input(user + "\r");
+    await waitForLine(screen, "Password:");
+    screen.input(password + "\r");
+    await waitForLine(screen, prompt(user));
+}
+
+/**
+ * 入力を送り、次のプロンプトが表示されるまでに表示された行を取得します。
+ * @param screen 仮想画面
+ * @param input 入力する文字列
+ * @param nextPrompt 入力の後に表示されるプロンプト
+ */
+export async function type(screen: VirtualScreen, input: string, nextPrompt: string): Promise<string[]> {
+    const start = transcript(screen).length;
+    screen.input(input);
+    await waitUntil(() => transcript(screen).length > start && currentLine(screen) === nextPrompt).catch(() => {
+        throw new Error(`Timed out waiting for "${nextPrompt}":\n${screen.screenshot()}`);
+    });
+    return transcript(screen).slice(start, -1);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "vitest";
+import { boot, login, prompt, transcript, type, waitForLine } from "./helpers";
+
+describe("login", () => {
+    test("一般ユーザーでログインできる", async () => {
+        const { screen } = await boot();
+        await login(screen, "kotone", "kotone");
+
+        expect(transcript(screen)).toContain("Last login: Wed Dec  9 04:09:57 on tty1");
+        expect(await type(screen, "pwd\r", prompt("kotone"))).toEqual(["/home/kotone"]);
+    });
+
+    test("root でログインするとプロンプトが # になる", async () => {
+        const { screen } = await boot();
+        await login(screen, "root", "root");
+
+        expect(await type(screen, "pwd\r", prompt("root"))).toEqual(["/root"]);
+    });
+
+    test("パスワードは表示されない", async () => {
+        const { screen } = await boot();
+        await login(screen, "kotone", "kotone");
+
+        expect(transcript(screen).join("\n")).not.toContain("Password: kotone");
+    });
+
+    test("ユーザー名の入力中に Ctrl-D を押すとログインプロンプトに戻る", async () => {
+        const { screen } = await boot();
+        await waitForLine(screen, "kotonepc login:");
+
+        // NOTE: login が終了すると init によって再び起動され、ログインプロンプトが表示される
+        expect(await type(screen, "\x04", "kotonepc login:")).toContain("ShalfeltOS 0.1.0");
+        await login(screen, "kotone", "kotone");
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "vitest";
+import { EACCES, EPERM } from "@/core/Error";
+import { OpenFlag } from "@/core/Flags";
+import { boot, login, prompt, type } from "./helpers";
+
+describe("permission", () => {
+    test("一般ユーザーは他人のディレクトリを探索できず、root は許可に関係なくアクセスできる", async () => {
+        const { emulator } = await boot();
+        await emulator.runCommand("echo secret > /root/secret.txt");
+
+        expect(await emulator.runCommand("cat /root/secret.txt", { uid: 1000, gid: 1000 })).toEqual({
+            stdout: "",
+            stderr: "cat: /root/secret.txt: 許可がありません\n",
+            exitCode: 1
+        });
+        expect(await emulator.runCommand("cat /root/secret.txt")).toMatchObject({ stdout: "secret\n", exitCode: 0 });
+    });
+
+    test("ユーザー ID を変更したプロセスは許可のないファイルを開けず、ユーザー ID を戻せない", async () => {
+        const { emulator } = await boot();
+        const errors: unknown[] = [];
+
+        await emulator.rootProcess.spawn(async function () {
+            this.setuid(1000);
+            for (const attempt of [() => this.open("/etc/passwd", OpenFlag.WRITE), () => this.readdir("/root"), () => this.setuid(0)]) {
+                try {
+                    attempt();
+                } catch (e) {
+                    errors.push(e);
+                }
+            }
+        });
+
+        expect(errors).toHaveLength(3);
+        expect(errors[0]).toBeInstanceOf(EACCES);
+        expect(errors[1]).toBeInstanceOf(EACCES);
+        expect(errors[2]).toBeInstanceOf(EPERM);
+    });
+
+    test("シェルは書き込めないファイルへのリダイレクトと実行できないファイルを拒否する", async () => {
+        const { screen } = await boot();
+        await login(screen, "kotone", "kotone");
+        const shell = prompt("kotone");
+
+        expect(await type(screen, "echo hacked > /etc/passwd\r", shell)).toEqual(["-fsh: /etc/passwd: 許可がありません"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["1"]);
+
+        await type(screen, "echo echo hi > /tmp/script\r", shell);
+        expect(await type(screen, "/tmp/script\r", shell)).toEqual(["-fsh: /tmp/script: 許可がありません"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["126"]);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest";
+import { EPIPE } from "@/core/Error";
+import { boot, login, prompt, type } from "./helpers";
+
+/**
+ * 文字列をバッファに変換します。
+ * @param text 文字列
+ */
+function encode(text: string): ArrayBuffer {
+    return new TextEncoder().encode(text).buffer;
+}
+
+describe("pipe", () => {
+    test("書き込まれたデータを読み込み、すべての書き込み側が閉じられると EOF になる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        const [readFd, writeFd] = process.pipe();
+
+        process.write(writeFd, encode("hello"));
+        expect(new TextDecoder().decode(await process.read(readFd))).toBe("hello");
+
+        process.close(writeFd);
+        expect((await process.read(readFd)).byteLength).toBe(0);
+        process.close(readFd);
+    });
+
+    test("データが到着するまで読み込みを待機する", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        const [readFd, writeFd] = process.pipe();
+
+        let received: string | null = null;
+        const reading = process.read(readFd).then(data => received = new TextDecoder().decode(data));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(received).toBeNull();
+
+        process.write(writeFd, encode("late"));
+        await reading;
+        expect(received).toBe("late");
+    });
+
+    test("読み込み側がすべて閉じられたパイプへの書き込みは EPIPE になる", async () => {
+        const { emulator } = await boot();
+        const process = emulator.rootProcess;
+        const [readFd, writeFd] = process.pipe();
+
+        process.close(readFd);
+        expect(() => process.write(writeFd, encode("lost"))).toThrow(EPIPE);
+    });
+
+    test("シェルのパイプラインは最後のコマンドの終了ステータスを返す", async () => {
+        const { screen } = await boot();
+        await login(screen, "kotone", "kotone");
+        const shell = prompt("kotone");
+
+        expect(await type(screen, "echo foo bar | cat | grep bar\r", shell)).toEqual(["foo bar"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["0"]);
+
+        expect(await type(screen, "echo foo | nonexistent\r", shell)).toEqual(["-fsh: nonexistent: コマンドが見つかりません"]);
+        expect(await type(screen, "echo $?\r", shell)).toEqual(["127"]);
+    });
+});
@@ -1,6 +1,7 @@
 import { Terminal } from "@xterm/xterm";
 import "@xterm/xterm/css/xterm.css";
 import { Emulator } from "@/core/Emulator";
+import { createXtermBackend } from "@/core/Terminal";
 import ShalfeltOS from "@/os/index";
 
 const term = new Terminal({
@@ -9,6 +10,13 @@ const term = new Terminal({
 });
 term.open(document.body);
 
-const { options, storage } = ShalfeltOS(term);
+const term2 = new Terminal({
+    fontFamily: "monospace",
+    convertEol: true
+});
+term2.open(document.body);
+
+const { options, storage } = ShalfeltOS(createXtermBackend(term));
 const emulator = new Emulator(options, storage);
 emulator.run();
+emulator.connectTerminal("/dev/tty2", createXtermBackend(term2));
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "vitest";
+import { ExpectError } from "@/core/Error";
+import { Session } from "@/core/Session";
+import { boot } from "./helpers";
+
+describe("runCommand", () => {
+    test("標準出力と終了ステータスを取得する", async () => {
+        const { emulator } = await boot();
+
+        expect(await emulator.runCommand("cat", { stdin: "hello\n" })).toEqual({ stdout: "hello\n", stderr: "", exitCode: 0 });
+        expect(await emulator.runCommand("cat /nonexistent")).toMatchObject({ stdout: "", exitCode: 1 });
+    });
+
+    test("/etc/passwd にないユーザーはユーザー ID と同じグループで実行する", async () => {
+        const { emulator } = await boot();
+
+        expect((await emulator.runCommand("id", { uid: 1234 })).stdout).toMatch(/^uid=1234\(1234\) gid=1234\(1234\) /);
+        expect((await emulator.runCommand("id", { uid: 1234, gid: 100 })).stdout).toMatch(/^uid=1234\(1234\) gid=100\(/);
+    });
+});
+
+describe("Session", () => {
+    test("シェルを操作して出力を待機する", async () => {
+        const { emulator } = await boot();
+        const session = emulator.openSession({ uid: 1000 });
+
+        await session.expect("$ ");
+        session.write("echo hello | cat\r");
+        await session.expect("echo hello | cat\r\n");
+        expect((await session.expect(/(\w+)\r\n/)).groups).toEqual(["hello"]);
+
+        session.write("exit 3\r");
+        expect(await session.exited).toBe(3);
+        await expect(session.expect("never")).rejects.toThrow(ExpectError);
+    });
+
+    test("シェルの起動に失敗した場合はセッションを閉じて exited を拒否する", async () => {
+        const { emulator } = await boot();
+        const session = new Session(emulator, emulator.createPty(0, 0), Promise.reject(new TypeError("failed")));
+
+        await expect(session.exited).rejects.toThrow(TypeError);
+        expect(emulator.ptys).not.toContain(session.pty);
+        await expect(session.expect("never")).rejects.toThrow(ExpectError);
+    });
+});
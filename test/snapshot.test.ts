@@ -0,0 +1,66 @@
+import { describe, expect, test } from "vitest";
+import { Emulator } from "@/core/Emulator";
+import { PersistenceBackend } from "@/core/Persistence";
+import { VirtualScreen } from "@/core/Screen";
+import { Snapshot } from "@/core/Snapshot";
+import ShalfeltOS from "@/os/index";
+import { boot, waitForLine, waitUntil } from "./helpers";
+
+describe("snapshot", () => {
+    test("復元したシステムでも端末デバイスを使用できる", async () => {
+        const { emulator } = await boot();
+        await emulator.runCommand("echo saved > /root/file.txt");
+        const snapshot: Snapshot = JSON.parse(JSON.stringify(emulator.snapshot()));
+
+        const persistence: PersistenceBackend = { load: async () => snapshot, save: async () => {} };
+        const { options, storage } = ShalfeltOS(new VirtualScreen());
+        const restored = new Emulator({ ...options, persistence }, storage);
+        await restored.run();
+
+        expect(await restored.runCommand("cat /root/file.txt")).toMatchObject({ stdout: "saved\n", exitCode: 0 });
+        expect(await restored.runCommand("stty < /dev/tty1")).toMatchObject({ stderr: "", exitCode: 0 });
+
+        const screen = new VirtualScreen();
+        restored.connectTerminal("/dev/tty2", screen);
+        screen.input("kotone\r");
+        await waitForLine(screen, "Password:");
+    });
+
+    test("ハードリンクは復元後も同じファイルを共有する", async () => {
+        const { emulator } = await boot();
+        await emulator.runCommand("echo linked > /root/a.txt");
+        emulator.rootProcess.link("/root/a.txt", "/root/b.txt");
+        const snapshot: Snapshot = JSON.parse(JSON.stringify(emulator.snapshot()));
+
+        const persistence: PersistenceBackend = { load: async () => snapshot, save: async () => {} };
+        const { options, storage } = ShalfeltOS(new VirtualScreen());
+        const restored = new Emulator({ ...options, persistence }, storage);
+        await restored.run();
+
+        const a = restored.rootProcess.stat("/root/a.txt");
+        const b = restored.rootProcess.stat("/root/b.txt");
+        expect(a.nlink).toBe(2);
+        expect(b.ino).toBe(a.ino);
+
+        await restored.runCommand("echo changed > /root/a.txt");
+        expect(await restored.runCommand("cat /root/b.txt")).toMatchObject({ stdout: "changed\n", exitCode: 0 });
+
+        // NOTE: 復元後に作成したファイルには、復元したファイルと重複しない inode 番号が割り当てられる
+        await restored.runCommand("echo new > /root/c.txt");
+        restored.rootProcess.link("/root/c.txt", "/root/d.txt");
+        expect(restored.rootProcess.stat("/root/c.txt").ino).not.toBe(a.ino);
+    });
+
+    test("自動保存に失敗すると onSaveError に通知する", async () => {
+        const error = new Error("quota exceeded");
+        const errors: unknown[] = [];
+        const persistence: PersistenceBackend = { load: async () => null, save: async () => { throw error; } };
+        const { options, storage } = ShalfeltOS(new VirtualScreen());
+        const emulator = new Emulator({ ...options, persistence, autosaveDelay: 0, onSaveError: e => errors.push(e) }, storage);
+        await emulator.run();
+
+        await emulator.runCommand("echo saved > /root/file.txt");
+        await waitUntil(() => errors.length > 0);
+        expect(errors[0]).toBe(error);
+    });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { Emulator } from "@/core/Emulator";
+import { OpenFlag } from "@/core/Flags";
+import { Process } from "@/core/Process";
+import { VirtualScreen } from "@/core/Screen";
+import { encodeTar, packTar, TarEntry, unpackTar } from "@/core/Tar";
+import { boot, login, prompt, type } from "./helpers";
+
+/**
+ * ファイルに書き込みます。
+ * @param process プロセス
+ * @param pathname パス名
+ * @param text 内容
+ */
+function writeFile(process: Process, pathname: string, text: string): void {
+    const fd = process.open(pathname, OpenFlag.WRITE | OpenFlag.TRUNCATE);
+    process.write(fd, new TextEncoder().encode(text).buffer);
+    process.close(fd);
+}
+
+/**
+ * ファイルを読み込みます。
+ * @param process プロセス
+ * @param pathname パス名
+ */
+async function readFile(process: Process, pathname: string): Promise<string> {
+    const fd = process.open(pathname, OpenFlag.READ);
+    const data = await process.read(fd);
+    process.close(fd);
+    return new TextDecoder().decode(data);
+}
+
+/**
+ * アーカイブのエントリを作成します。
+ * @param entry 種類ごとの値
+ */
+function tarEntry(entry: Pick<TarEntry, "pathname" | "type"> & Partial<TarEntry>): TarEntry {
+    return { mode: 0o777, owner: 0, group: 0, mtime: 0, ...entry };
+}
+
+describe("tar", () => {
+    let emulator: Emulator;
+    let process: Process;
+
+    beforeEach(async () => {
+        ({ emulator } = await boot());
+        process = emulator.rootProcess;
+    });
+
+    test("アーカイブに格納したファイルを展開できる", async () => {
+        process.mkdir("/root/src/sub", 0o755, true);
+        writeFile(process, "/root/src/a.txt", "hello");
+        process.chmod("/root/src/a.txt", 0o640);
+        process.link("/root/src/a.txt", "/root/src/sub/b.txt");
+        process.symlink("../a.txt", "/root/src/sub/c");
+
+        const archive = await packTar(process, ["src"], "/root");
+        process.mkdir("/root/out", 0o755);
+        const entries = await unpackTar(process, archive, "/root/out");
+
+        expect(entries.map(e => [e.pathname, e.type])).toEqual([
+            ["src", "directory"],
+            ["src/sub", "directory"],
+            ["src/sub/b.txt", "file"],
+            ["src/sub/c", "symlink"],
+            ["src/a.txt", "hardlink"]
+        ]);
+        expect(await readFile(process, "/root/out/src/a.txt")).toBe("hello");
+        expect(process.stat("/root/out/src/a.txt").mode & 0o7777).toBe(0o640);
+        expect(process.stat("/root/out/src/sub/b.txt")).toMatchObject({ ino: process.stat("/root/out/src/a.txt").ino, nlink: 2 });
+        expect(process.readlink("/root/out/src/sub/c")).toBe("../a.txt");
+        expect(await readFile(process, "/root/out/src/sub/c")).toBe("hello");
+    });
+
+    test("展開先の外を指すハードリンクは展開しない", async () => {
+        const shadow = process.stat("/etc/shadow");
+        process.mkdir("/root/out", 0o755);
+
+        await unpackTar(process, encodeTar([
+            tarEntry({ pathname: "a", type: "hardlink", target: "../../etc/shadow" }),
+            tarEntry({ pathname: "b", type: "hardlink", target: "/etc/shadow" })
+        ]), "/root/out");
+
+        expect(process.readdir("/root/out")).toEqual([]);
+        expect(process.stat("/etc/shadow")).toMatchObject({ mode: shadow.mode, nlink: 1 });
+    });
+
+    test("先に展開したシンボリックリンクを経由して書き込まない", async () => {
+        const passwd = await readFile(process, "/etc/passwd");
+        const etc = process.stat("/etc");
+        process.mkdir("/root/out", 0o755);
+
+        const entries = await unpackTar(process, encodeTar([
+            tarEntry({ pathname: "link", type: "symlink", target: "/etc" }),
+            tarEntry({ pathname: "link/passwd", type: "file", data: new TextEncoder().encode("evil").buffer }),
+            tarEntry({ pathname: "link/new/file", type: "file", data: new ArrayBuffer(0) }),
+            tarEntry({ pathname: "link", type: "directory" }),
+            tarEntry({ pathname: "shadow", type: "hardlink", target: "link/shadow" })
+        ]), "/root/out");
+
+        expect(entries.map(e => e.pathname)).toEqual(["link"]);
+        expect(await readFile(process, "/etc/passwd")).toBe(passwd);
+        expect(process.readdir("/etc")).not.toContain("new");
+        expect(process.stat("/etc").mode).toBe(etc.mode);
+        expect(process.readdir("/root/out")).toEqual(["link"]);
+    });
+});
+
+describe("tar コマンド", () => {
+    let screen: VirtualScreen;
+    const shell = prompt("kotone");
+
+    beforeEach(async () => {
+        let emulator: Emulator;
+        ({ emulator, screen } = await boot());
+        for (const name of ["dir", "out"]) {
+            emulator.rootProcess.mkdir(`/home/kotone/${name}`, 0o755);
+            emulator.rootProcess.chown(`/home/kotone/${name}`, 1000, 1000);
+        }
+        await login(screen, "kotone", "kotone");
+    });
+
+    test("作成したアーカイブを別のディレクトリに展開する", async () => {
+        await type(screen, "echo hello > dir/a.txt\r", shell);
+        expect(await type(screen, "tar cf a.tar dir\r", shell)).toEqual([]);
+        expect(await type(screen, "tar tf a.tar\r", shell)).toEqual(["dir/", "dir/a.txt"]);
+        expect(await type(screen, "tar xf a.tar -C out\r", shell)).toEqual([]);
+        expect(await type(screen, "cat out/dir/a.txt\r", shell)).toEqual(["hello"]);
+    });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { Emulator } from "@/core/Emulator";
+import { LocalFlag, OpenFlag } from "@/core/Flags";
+import { Program } from "@/core/File";
+import { VirtualScreen } from "@/core/Screen";
+import { generateFakeElfFile } from "@/core/Utils";
+import { boot, login, prompt, transcript, type } from "./helpers";
+
+/**
+ * プログラムを登録し、それを実行する実行ファイルを作成します。
+ * @param emulator エミュレーター
+ * @param pathname 実行ファイルのパス名
+ * @param program プログラム
+ */
+function install(emulator: Emulator, pathname: string, program: Program): void {
+    const name = pathname.split("/").pop()!;
+    emulator.programs[name] = program;
+
+    const process = emulator.rootProcess;
+    const fd = process.open(pathname, OpenFlag.WRITE | OpenFlag.TRUNCATE, 0o755);
+    process.write(fd, generateFakeElfFile(name).buffer);
+    process.close(fd);
+}
+
+describe("lib.io.read", () => {
+    test("カノニカルモードでは行末の改行を含めずに 1 行を返し、newline で改行を含める", async () => {
+        const { emulator } = await boot();
+        install(emulator, "/tmp/readlines", async function (lib) {
+            const lines = [await lib.io.read(0), await lib.io.read(0, { newline: true }), await lib.io.read(0, { newline: true })];
+            lib.io.write(JSON.stringify(lines) + "\n");
+        });
+
+        const session = emulator.openSession({ uid: 1000 });
+        await session.expect("$ ");
+        session.write("/tmp/readlines\r");
+        await session.expect("/tmp/readlines\r\n");
+
+        session.write("foo\r");
+        await session.expect("foo\r\n");
+        session.write("\r");
+        await session.expect("\r\n");
+        session.write("\x04");
+        expect((await session.expect(/(\[.*\])\r\n/)).groups).toEqual([JSON.stringify(["foo", "\n", ""])]);
+    });
+
+    test("非カノニカルモードでは改行を待たずに入力を返す", async () => {
+        const { emulator } = await boot();
+        install(emulator, "/tmp/readkey", async function (lib) {
+            const termios = this.tcgetattr(0);
+            this.tcsetattr(0, { ...termios, lflag: termios.lflag & ~(LocalFlag.ICANON | LocalFlag.ECHO), cc: { ...termios.cc, VMIN: 1, VTIME: 0 } });
+            const key = await lib.io.read(0);
+            this.tcsetattr(0, termios);
+            lib.io.write(JSON.stringify(key) + "\n");
+        });
+
+        const session = emulator.openSession({ uid: 1000 });
+        await session.expect("$ ");
+        session.write("/tmp/readkey\r");
+        await session.expect("/tmp/readkey\r\n");
+
+        session.write("a");
+        expect((await session.expect(/(".*")\r\n/)).groups).toEqual(['"a"']);
+    });
+});
+
+describe("stty", () => {
+    let screen: VirtualScreen;
+    const shell = prompt("kotone");
+
+    beforeEach(async () => {
+        ({ screen } = await boot());
+        await login(screen, "kotone", "kotone");
+    });
+
+    test("-echo で入力を表示しない", async () => {
+        await type(screen, "stty -echo\r", shell);
+        expect(await type(screen, "echo hidden\r", shell)).toEqual(["hidden"]);
+        expect(transcript(screen)).not.toContain(`${shell} echo hidden`);
+
+        await type(screen, "stty echo\r", shell);
+        expect(await type(screen, "echo shown\r", shell)).toEqual(["shown"]);
+        expect(transcript(screen)).toContain(`${shell} echo shown`);
+    });
+
+    test("eof で変更したファイル終端の文字で空の行の入力を終える", async () => {
+        await type(screen, "stty eof ^X\r", shell);
+        expect(await type(screen, "stty\r", shell)).toContain("intr = ^C; erase = ^?; kill = ^U; eof = ^X; min = 1; time = 0;");
+
+        expect(await type(screen, "\x04echo still\r", shell)).toEqual(["still"]);
+        await type(screen, "\x18", "kotonepc login:");
+        expect(transcript(screen)).toContain(`${shell} exit`);
+    });
+});
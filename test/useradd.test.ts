@@ -0,0 +1,29 @@
+import { describe, expect, test } from "vitest";
+import { boot } from "./helpers";
+
+describe("useradd", () => {
+    test("ユーザーを /etc/passwd に追加する", async () => {
+        const { emulator } = await boot();
+
+        expect(await emulator.runCommand("useradd -u 1500 -d /home/eve -s /bin/fsh -c Eve eve")).toMatchObject({ stderr: "", exitCode: 0 });
+        expect((await emulator.runCommand("cat /etc/passwd")).stdout).toContain("eve:x:1500:1500:Eve:/home/eve:/bin/fsh\n");
+    });
+
+    test(": や改行を含むフィールドと数字でない UID を拒否する", async () => {
+        const { emulator } = await boot();
+        const passwd = (await emulator.runCommand("cat /etc/passwd")).stdout;
+
+        expect(await emulator.runCommand("useradd -c a:0:0 eve")).toEqual({ stdout: "", stderr: "useradd: 無効なコメント 'a:0:0'\n", exitCode: 1 });
+        expect(await emulator.runCommand("useradd -d /home/eve:x eve")).toEqual({ stdout: "", stderr: "useradd: 無効なホームディレクトリ '/home/eve:x'\n", exitCode: 1 });
+        expect(await emulator.runCommand("useradd -u 0x10 eve")).toEqual({ stdout: "", stderr: "useradd: 無効なユーザー ID '0x10'\n", exitCode: 1 });
+        expect(await emulator.runCommand("useradd -u 12abc eve")).toEqual({ stdout: "", stderr: "useradd: 無効なユーザー ID '12abc'\n", exitCode: 1 });
+
+        // NOTE: シェルは改行でコマンドを区切るため、改行を含む引数は直接渡す
+        const status = await emulator.rootProcess.spawn(async function () {
+            await this.exec("/usr/sbin/useradd", ["-s", "/bin/fsh\nmallory::0:0:::/bin/fsh", "eve"]);
+        });
+        expect(status).toBe(1);
+
+        expect((await emulator.runCommand("cat /etc/passwd")).stdout).toBe(passwd);
+    });
+});